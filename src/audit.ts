@@ -0,0 +1,201 @@
+import * as vscode from "vscode";
+import * as k8s from "@kubernetes/client-node";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { ToolName, ToolResult } from "./kubernetes";
+
+/* =========================================================
+ * Types
+ * ========================================================= */
+
+export type AuditEntry = {
+  timestamp: string;
+  context: string;
+  cluster?: string;
+  user?: string; // kubeconfig user the change was made as
+  planId: string;
+  planHash: string;
+  prompt: string;
+  planSummary: string;
+  tool: ToolName;
+  args: Record<string, any>;
+  kind?: string;
+  namespace?: string;
+  name?: string;
+  resourceVersionBefore?: string;
+  resourceVersionAfter?: string;
+  ok: boolean;
+  error?: string;
+};
+
+export type AuditFilter = {
+  resource?: string;
+  namespace?: string;
+  since?: Date;
+  until?: Date;
+  text?: string;
+  limit: number;
+};
+
+const AUDIT_FILE = "audit.jsonl";
+
+/* =========================================================
+ * Recording
+ * ========================================================= */
+
+export function buildAuditEntry(
+  kc: k8s.KubeConfig,
+  plan: { id: string; hash: string; originalUserText: string; plan: { summary: string } },
+  result: ToolResult,
+  before: any,
+  after: any
+): AuditEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    context: kc.getCurrentContext(),
+    cluster: kc.getCurrentCluster()?.name,
+    user: kc.getCurrentUser()?.name,
+    planId: plan.id,
+    planHash: plan.hash,
+    prompt: plan.originalUserText,
+    planSummary: plan.plan.summary,
+    tool: result.tool,
+    args: auditArgs(result.args),
+    kind: before?.kind ?? after?.kind ?? result.args.kind,
+    namespace: result.args.namespace,
+    name: result.args.name ?? result.args.manifest?.metadata?.name,
+    resourceVersionBefore: before?.metadata?.resourceVersion,
+    resourceVersionAfter: after?.metadata?.resourceVersion,
+    ok: result.ok,
+    error: result.ok ? undefined : String(result.result)
+  };
+}
+
+/**
+ * The log is plain JSON on disk, so object bodies (undo snapshots, applied manifests) are reduced
+ * to what identifies them and ConfigMap/Secret style data maps to their key names.
+ */
+function auditArgs(args: Record<string, any>): Record<string, any> {
+  const copy = { ...args };
+  for (const field of ["snapshot", "manifest"]) {
+    if (copy[field] && typeof copy[field] === "object") {
+      const { apiVersion, kind, metadata } = copy[field];
+      copy[field] = {
+        apiVersion,
+        kind,
+        namespace: metadata?.namespace,
+        name: metadata?.name,
+        resourceVersion: metadata?.resourceVersion
+      };
+    }
+  }
+  for (const field of ["data", "stringData", "binaryData"]) {
+    if (copy[field] && typeof copy[field] === "object") {
+      copy[field] = Object.keys(copy[field]);
+    }
+  }
+  return copy;
+}
+
+export async function appendAuditEntries(storageUri: vscode.Uri, entries: AuditEntry[]): Promise<void> {
+  if (!entries.length) {
+    return;
+  }
+  await fs.mkdir(storageUri.fsPath, { recursive: true });
+  await fs.appendFile(
+    path.join(storageUri.fsPath, AUDIT_FILE),
+    entries.map(e => JSON.stringify(e)).join("\n") + "\n",
+    "utf8"
+  );
+}
+
+/* =========================================================
+ * Querying
+ * ========================================================= */
+
+export async function readAuditLog(storageUri: vscode.Uri): Promise<AuditEntry[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(path.join(storageUri.fsPath, AUDIT_FILE), "utf8");
+  } catch (e: any) {
+    if (e?.code === "ENOENT") {
+      return [];
+    }
+    throw e;
+  }
+  const entries: AuditEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.warn("Skipping malformed audit line:", line);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Parses `/audit` arguments: `resource=`, `namespace=`, `since=`, `until=` (any Date-parsable
+ * value, e.g. 2026-01-31) and `limit=`. Remaining words are matched against the prompt and summary.
+ */
+export function parseAuditFilter(query: string): AuditFilter {
+  const filter: AuditFilter = { limit: 20 };
+  const words: string[] = [];
+  for (const token of query.split(/\s+/).filter(Boolean)) {
+    const [key, ...rest] = token.split("=");
+    const value = rest.join("=");
+    if (!value) {
+      words.push(token);
+      continue;
+    }
+    switch (key.toLowerCase()) {
+      case "resource": filter.resource = value; break;
+      case "namespace":
+      case "ns": filter.namespace = value; break;
+      case "since": filter.since = parseDate(value, key); break;
+      case "until": filter.until = parseDate(value, key); break;
+      case "limit": filter.limit = Number(value) || filter.limit; break;
+      default: words.push(token);
+    }
+  }
+  if (words.length) {
+    filter.text = words.join(" ");
+  }
+  return filter;
+}
+
+function parseDate(value: string, key: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${key} date: ${value}`);
+  }
+  return date;
+}
+
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const contains = (haystack: string | undefined, needle: string) =>
+    (haystack ?? "").toLowerCase().includes(needle.toLowerCase());
+
+  return entries
+    .filter(e => !filter.namespace || e.namespace === filter.namespace)
+    .filter(e => !filter.resource || [e.name, e.kind, e.tool].some(v => contains(v, filter.resource!)))
+    .filter(e => !filter.since || new Date(e.timestamp) >= filter.since)
+    .filter(e => !filter.until || new Date(e.timestamp) <= filter.until)
+    .filter(e => !filter.text || contains(e.prompt, filter.text) || contains(e.planSummary, filter.text))
+    .reverse()
+    .slice(0, filter.limit);
+}
+
+export function renderAuditEntries(entries: AuditEntry[]): string {
+  if (!entries.length) {
+    return "No audit entries match.";
+  }
+  const rows = entries.map(e =>
+    `| ${e.timestamp} | \`${e.context}\` | ${e.tool} | ${[e.kind, e.namespace, e.name].filter(Boolean).join(" ")} | ` +
+    `${e.resourceVersionBefore ?? "–"} → ${e.resourceVersionAfter ?? "–"} | ${e.ok ? "✅" : `❌ ${e.error ?? ""}`} |`
+  );
+  return `| Time | Context | Tool | Resource | resourceVersion | Result |\n|---|---|---|---|---|---|\n${rows.join("\n")}`;
+}
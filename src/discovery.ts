@@ -0,0 +1,159 @@
+import * as k8s from "@kubernetes/client-node";
+import { errorMessage } from "./kubernetes";
+
+/* =========================================================
+ * Types
+ * ========================================================= */
+
+export type ResourceInfo = {
+  group: string; // "" for the core group
+  version: string;
+  apiVersion: string; // "v1" or "group/version", as used in manifests
+  kind: string;
+  plural: string;
+  singular: string;
+  namespaced: boolean;
+  shortNames: string[];
+  verbs: string[];
+};
+
+export type ResolvedResource = ResourceInfo & {
+  alternatives: string[]; // Other "Kind (apiVersion)" matches, e.g. Istio vs Gateway API Gateway
+};
+
+export type ResolveOptions = {
+  apiVersion?: string; // Pins the group (and version) when a kind exists in several groups
+  preferGroup?: (group: string) => boolean;
+};
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Per cluster + context; discovery is dozens of requests, and the set of types rarely changes
+const cache = new Map<string, { expiresAt: number; resources: ResourceInfo[] }>();
+
+/**
+ * Exposes the API resource list that KubernetesObjectApi fetches (and caches) internally
+ * when it resolves a kind, so discovery shares its auth and request handling.
+ */
+class DiscoveryApi extends k8s.KubernetesObjectApi {
+  async listApiResources(apiVersion: string): Promise<k8s.V1APIResource[]> {
+    await this.resource(apiVersion, "");
+    return this.apiVersionResourceCache[apiVersion]?.resources ?? [];
+  }
+}
+
+/* =========================================================
+ * Discovery
+ * ========================================================= */
+
+/**
+ * Lists every top-level resource type the cluster serves, at each group's preferred version.
+ * Groups whose discovery fails (typically an unavailable aggregated API such as
+ * metrics.k8s.io) are skipped rather than failing the whole lookup.
+ */
+export async function discoverResources(kc: k8s.KubeConfig): Promise<ResourceInfo[]> {
+  const key = `${kc.getCurrentCluster()?.server ?? ""}|${kc.getCurrentContext()}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.resources;
+  }
+
+  const core = kc.makeApiClient(k8s.CoreV1Api);
+  const discovery = kc.makeApiClient(DiscoveryApi);
+
+  const resources = toResourceInfos("", "v1", (await core.getAPIResources()).body.resources);
+  const groups = (await discovery.getAPIVersions()).body.groups;
+  for (const group of groups) {
+    const version = group.preferredVersion?.version ?? group.versions[0]?.version;
+    if (!version) {
+      continue;
+    }
+    try {
+      resources.push(...toResourceInfos(group.name, version, await discovery.listApiResources(`${group.name}/${version}`)));
+    } catch (e: any) {
+      console.warn(`Discovery failed for ${group.name}/${version}:`, errorMessage(e));
+    }
+  }
+
+  cache.set(key, { expiresAt: Date.now() + CACHE_TTL_MS, resources });
+  return resources;
+}
+
+/**
+ * Resolves a kind, plural, singular or short name ("Certificate", "certificates", "cert",
+ * "certificates.cert-manager.io") to a resource type, case-insensitively. When several groups
+ * serve the name, core and *.k8s.io groups win unless `preferGroup` or `apiVersion` says otherwise;
+ * the other matches are returned as alternatives.
+ */
+export async function resolveResource(
+  kc: k8s.KubeConfig,
+  name: string,
+  options: ResolveOptions = {}
+): Promise<ResolvedResource> {
+  const [base, ...groupParts] = String(name ?? "").trim().split(".");
+  const wanted = base.toLowerCase();
+  const groupSuffix = groupParts.join(".").toLowerCase();
+  if (!wanted) {
+    throw new Error("A resource kind is required");
+  }
+
+  let resources = await discoverResources(kc);
+  let pinnedVersion: string | undefined;
+  if (options.apiVersion) {
+    const [group, version] = options.apiVersion.includes("/") ? options.apiVersion.split("/") : ["", options.apiVersion];
+    pinnedVersion = version;
+    resources = resources.filter(r => r.group === group);
+  }
+
+  const matches = resources.filter(r =>
+    (r.kind.toLowerCase() === wanted || r.plural === wanted || r.singular === wanted || r.shortNames.includes(wanted)) &&
+    (!groupSuffix || r.group === groupSuffix || r.group.startsWith(`${groupSuffix}.`))
+  );
+  if (!matches.length) {
+    throw new Error(`Unknown resource type "${name}"${options.apiVersion ? ` in ${options.apiVersion}` : ""}; it is not served by this cluster`);
+  }
+
+  const ranked = [...matches].sort((a, b) => groupRank(a.group, options) - groupRank(b.group, options));
+  const best = ranked[0];
+  const resolved: ResourceInfo = pinnedVersion && pinnedVersion !== best.version
+    ? { ...best, version: pinnedVersion, apiVersion: best.group ? `${best.group}/${pinnedVersion}` : pinnedVersion }
+    : best;
+  return {
+    ...resolved,
+    alternatives: ranked.slice(1).map(r => `${r.kind} (${r.apiVersion})`)
+  };
+}
+
+/* =========================================================
+ * Helpers
+ * ========================================================= */
+
+function toResourceInfos(group: string, version: string, resources: k8s.V1APIResource[]): ResourceInfo[] {
+  return resources
+    .filter(r => !r.name.includes("/")) // Subresources such as pods/log or deployments/scale
+    .map(r => ({
+      group,
+      version,
+      apiVersion: group ? `${group}/${version}` : version,
+      kind: r.kind,
+      plural: r.name,
+      singular: r.singularName || r.kind.toLowerCase(),
+      namespaced: r.namespaced,
+      shortNames: r.shortNames ?? [],
+      verbs: r.verbs
+    }));
+}
+
+// Lower is preferred: caller preference, then core, then built-in groups, then everything else
+function groupRank(group: string, options: ResolveOptions): number {
+  if (options.preferGroup?.(group)) {
+    return 0;
+  }
+  if (group === "") {
+    return 1;
+  }
+  if (!group.includes(".") || group.endsWith(".k8s.io")) {
+    return 2;
+  }
+  return 3;
+}
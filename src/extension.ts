@@ -1,6 +1,53 @@
 import * as vscode from "vscode";
-import { executeTool, isMutating, loadKubeConfig, ToolCall, ToolResult } from "./kubernetes";
+import * as crypto from "crypto";
+import {
+  captureToolTarget,
+  describeKubeTarget,
+  errorMessage,
+  executeTool,
+  isInternalTool,
+  isMutating,
+  loadKubeConfig,
+  pinToolTargets,
+  ToolCall,
+  ToolResult
+} from "./kubernetes";
 import { jsonrepair } from "jsonrepair";
+import {
+  classifyCallTier,
+  classifyTier,
+  describePolicy,
+  evaluatePolicy,
+  getTargetNamespace,
+  loadPolicy,
+  Policy,
+  policyDenial
+} from "./policy";
+import { previewMutations, renderPreviews } from "./preview";
+import {
+  AuditEntry,
+  appendAuditEntries,
+  buildAuditEntry,
+  filterAuditEntries,
+  parseAuditFilter,
+  readAuditLog,
+  renderAuditEntries
+} from "./audit";
+import { buildApplyCalls, readActiveManifest, renderApplyResults } from "./manifest";
+import { PermissionSummary, preflightAccess, renderAccessChecks, summarizePermissions } from "./rbac";
+import {
+  buildRedactionRules,
+  createStreamRevealer,
+  createVault,
+  DEFAULT_KEY_PATTERNS,
+  RedactionRules,
+  RedactionVault,
+  redactResults,
+  redactValue,
+  revealValue
+} from "./redact";
+import { renderRolloutOutcome, startsRollout, watchRollout } from "./rollout";
+import { buildRestoreCalls, buildUndoSteps, describeUndo, UndoStep } from "./undo";
 
 /* =========================================================
  * Types
@@ -13,10 +60,20 @@ type Plan = {
 };
 
 type PendingAction = {
+  id: string; // Carried by the Confirm button so an old card cannot confirm a newer plan
+  hash: string; // Digest of context + calls, shown on the card and recorded in the audit log
+  expiresAt: number;
   originalUserText: string;
+  context: string; // kube context the plan was made against
   plan: Plan;
   pendingToolCalls: ToolCall[];
   priorResults: ToolResult[];
+  targetVersions: (string | null | undefined)[]; // resourceVersion per pending call at planning time
+};
+
+type SessionRedaction = {
+  vault: RedactionVault;
+  reveal: boolean; // Set by /reveal; only affects local chat output, never model input
 };
 
 /* =========================================================
@@ -24,11 +81,23 @@ type PendingAction = {
  * ========================================================= */
 
 const pendingBySession = new Map<string, PendingAction>();
+const undoBySession = new Map<string, UndoStep[]>(); // Last confirmed batch only
+const contextBySession = new Map<string, string>(); // Set by /context, overrides kubeCopilot.context
+const redactionBySession = new Map<string, SessionRedaction>();
 
 function getSessionKey(): string {
   return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? "no-workspace";
 }
 
+function getSessionRedaction(sessionKey: string): SessionRedaction {
+  let redaction = redactionBySession.get(sessionKey);
+  if (!redaction) {
+    redaction = { vault: createVault(), reveal: false };
+    redactionBySession.set(sessionKey, redaction);
+  }
+  return redaction;
+}
+
 /* =========================================================
  * Extension activate
  * ========================================================= */
@@ -39,45 +108,78 @@ export function activate(context: vscode.ExtensionContext) {
   const participant = vscode.chat.createChatParticipant(
     "kubeCopilot.kube",
     async (request, _chatContext, stream, token) => {
-      await handleChatRequest(request, stream, token);
+      await handleChatRequest(request, stream, token, context.globalStorageUri);
     }
   );
 
   context.subscriptions.push(participant);
-  vscode.commands.registerCommand('kubeCopilot.kube.confirm', async () => {
-    vscode.commands.executeCommand('workbench.action.chat.open', '@kube confirm')
+  vscode.commands.registerCommand('kubeCopilot.kube.confirm', async (planId?: string) => {
+    vscode.commands.executeCommand('workbench.action.chat.open', planId ? `@kube confirm ${planId}` : '@kube confirm');
   });
   vscode.commands.registerCommand('kubeCopilot.kube.cancel', async () => {
     vscode.commands.executeCommand('workbench.action.chat.open', '@kube cancel')
   });
+  vscode.commands.registerCommand('kubeCopilot.kube.undo', async () => {
+    vscode.commands.executeCommand('workbench.action.chat.open', '@kube undo');
+  });
+  vscode.commands.registerCommand('kubeCopilot.applyManifest', async () => {
+    vscode.commands.executeCommand('workbench.action.chat.open', '@kube apply this');
+  });
 }
 
 
 export function deactivate() { }
 
 type ExtensionConfig = {
+  context: string;
   defaultNamespace: string;
-  allowedNamespaces: Set<string>;
-  maxReplicas: number;
-  allowedImages: string[];
+  confirmationTtlSeconds: number;
+  watchRollouts: boolean;
+  rolloutTimeoutSeconds: number;
+  redaction: RedactionRules;
+  policy: Policy;
 };
 
 async function handleChatRequest(
   request: vscode.ChatRequest,
   stream: vscode.ChatResponseStream,
-  token: vscode.CancellationToken
+  token: vscode.CancellationToken,
+  storageUri: vscode.Uri
 ): Promise<void> {
   const userText = (request.prompt ?? "").trim();
+  if (request.command === "audit") {
+    await handleAuditCommand(userText, storageUri, stream);
+    return;
+  }
+
+  // Slash commands come before the empty-prompt help: a bare /context lists contexts, a bare /reveal shows the state
+  const sessionKey = getSessionKey();
+  if (request.command === "reveal") {
+    handleRevealCommand(userText, sessionKey, stream);
+    return;
+  }
+
+  let cfg: ExtensionConfig;
+  try {
+    cfg = await getExtensionConfig();
+  } catch (e: any) {
+    stream.markdown(`❌ Failed to load policy: \`${e.message}\``);
+    return;
+  }
+  if (request.command === "context") {
+    handleContextCommand(userText, cfg, sessionKey, stream);
+    return;
+  }
+
   if (!userText) {
     stream.markdown(helpText());
     return;
   }
 
-  const cfg = getExtensionConfig();
-  const kc = loadKubeConfig(stream);
+  const kc = loadKubeConfig(stream, contextBySession.get(sessionKey) || cfg.context);
   if (!kc) return;
+  stream.markdown(`🔗 Running against ${describeKubeTarget(kc)}\n\n`);
 
-  const sessionKey = getSessionKey();
   const pending = pendingBySession.get(sessionKey);
 
   if (pending) {
@@ -89,11 +191,22 @@ async function handleChatRequest(
       cfg,
       stream,
       request.model.family,
-      token
+      token,
+      storageUri
     );
     if (handled) return;
   }
 
+  if (/^undo$/i.test(userText)) {
+    await queueUndo(kc, cfg, sessionKey, stream);
+    return;
+  }
+
+  if (/^apply( this)?$/i.test(userText)) {
+    await queueApply(kc, cfg, sessionKey, stream);
+    return;
+  }
+
   await runAgentLoop(
     userText,
     kc,
@@ -105,13 +218,19 @@ async function handleChatRequest(
   );
 }
 
-function getExtensionConfig(): ExtensionConfig {
+async function getExtensionConfig(): Promise<ExtensionConfig> {
   const cfg = vscode.workspace.getConfiguration("kubeCopilot");
   return {
+    context: cfg.get<string>("context") ?? "",
     defaultNamespace: cfg.get<string>("namespace") ?? "dev",
-    allowedNamespaces: new Set(cfg.get<string[]>("allowNamespaces") ?? ["dev"]),
-    maxReplicas: cfg.get<number>("maxReplicas") ?? 20,
-    allowedImages: cfg.get<string[]>("allowedImages") ?? []
+    confirmationTtlSeconds: cfg.get<number>("confirmationTtlSeconds") ?? 300,
+    watchRollouts: cfg.get<boolean>("watchRollouts") ?? true,
+    rolloutTimeoutSeconds: cfg.get<number>("rolloutTimeoutSeconds") ?? 300,
+    redaction: buildRedactionRules(
+      cfg.get<string[]>("redaction.keyPatterns") ?? DEFAULT_KEY_PATTERNS,
+      cfg.get<boolean>("redaction.base64") ?? true
+    ),
+    policy: await loadPolicy()
   };
 }
 
@@ -123,17 +242,71 @@ async function handlePendingAction(
   cfg: ExtensionConfig,
   stream: vscode.ChatResponseStream,
   modelFamily: string,
-  token: vscode.CancellationToken
+  token: vscode.CancellationToken,
+  storageUri: vscode.Uri
 ): Promise<boolean> {
-  if (/^(confirm|yes|proceed|ok)$/i.test(userText)) {
-    stream.markdown("✅ Confirmed. Executing changes…");
+  const confirmMatch = userText.match(/^(confirm|yes|proceed|ok)(?:\s+([0-9a-f]{8}))?$/i);
+  const genericConfirm = Boolean(confirmMatch);
+  const prodTargets = getProdTargets(cfg.policy, pending.context, pending.pendingToolCalls);
+  const confirmed = prodTargets.length ? matchesTypedConfirmation(userText, prodTargets) : genericConfirm;
+  const expired = isPlanExpired(pending);
+
+  if (expired) {
+    pendingBySession.delete(sessionKey);
+    if (confirmed || genericConfirm) {
+      stream.markdown(`⌛ The pending plan \`${pending.id}\` expired. Nothing was executed; ask again to re-plan.`);
+      return true;
+    }
+    // An unrelated question after expiry is simply answered
+    return false;
+  }
+
+  if (confirmMatch?.[2] && confirmMatch[2] !== pending.id) {
+    stream.markdown(
+      `❌ That confirmation belongs to plan \`${confirmMatch[2]}\`, but the pending plan is \`${pending.id}\`. ` +
+      `Nothing was executed; use the buttons on the latest card.`
+    );
+    return true;
+  }
+
+  if (prodTargets.length && genericConfirm) {
+    stream.markdown(`🚨 ${describeTypedConfirmation(prodTargets)}`);
+    return true;
+  }
+
+  if (confirmed) {
+    if (kc.getCurrentContext() !== pending.context) {
+      pendingBySession.delete(sessionKey);
+      stream.markdown(
+        `❌ These changes were planned against context \`${pending.context}\`, but the active context is now ` +
+        `\`${kc.getCurrentContext()}\`. Nothing was executed; ask again to re-plan.`
+      );
+      return true;
+    }
+
+    const staleReason = await findStaleTargets(kc, pending);
+    if (staleReason) {
+      pendingBySession.delete(sessionKey);
+      stream.markdown(`❌ ${staleReason} Nothing was executed; ask again to re-plan against the current state.`);
+      return true;
+    }
+    stream.markdown(`✅ Confirmed plan \`${pending.id}\`. Executing changes…`);
 
     const results: ToolResult[] = [...pending.priorResults];
-    for (const call of pending.pendingToolCalls) {
-      results.push(await executeTool(kc, call, cfg.allowedNamespaces, cfg.allowedImages, cfg.maxReplicas));
+    const undoSteps = await executePendingCalls(kc, cfg, pending, results, stream, storageUri);
+    if (cfg.watchRollouts) {
+      await watchRollouts(kc, cfg, results.slice(pending.priorResults.length), stream, token);
     }
 
     pendingBySession.delete(sessionKey);
+    if (undoSteps.length) {
+      undoBySession.set(sessionKey, undoSteps);
+      stream.button({
+        command: 'kubeCopilot.kube.undo',
+        title: vscode.l10n.t('Undo')
+      });
+    }
+
     if (!pending.plan.done) {
       await runAgentLoop(
         pending.originalUserText,
@@ -148,7 +321,7 @@ async function handlePendingAction(
       return true;
     }
 
-    await formatWithLm(pending.originalUserText, pending.plan.summary, results, stream, modelFamily);
+    await formatWithLm(pending.originalUserText, pending.plan.summary, results, cfg, sessionKey, stream, modelFamily);
     return true;
   }
 
@@ -161,6 +334,125 @@ async function handlePendingAction(
   return false;
 }
 
+/**
+ * Executes the confirmed calls, snapshotting each target before and after so the batch
+ * can be audited and undone. Returns the undo steps for the batch.
+ */
+async function executePendingCalls(
+  kc: import("@kubernetes/client-node").KubeConfig,
+  cfg: ExtensionConfig,
+  pending: PendingAction,
+  results: ToolResult[],
+  stream: vscode.ChatResponseStream,
+  storageUri: vscode.Uri
+): Promise<UndoStep[]> {
+  const auditEntries: AuditEntry[] = [];
+  const executed: { result: ToolResult; before: any; after: any }[] = [];
+  for (const call of pending.pendingToolCalls) {
+    const before = await captureToolTarget(kc, call);
+    const result = await executeTool(kc, call, cfg.policy);
+    const after = await captureToolTarget(kc, call);
+    reportDenial(stream, result);
+    results.push(result);
+    executed.push({ result, before, after });
+    auditEntries.push(buildAuditEntry(kc, pending, result, before, after));
+  }
+
+  const applied = executed.filter(e => e.result.tool === "applyManifest");
+  if (applied.length) {
+    stream.markdown(`${renderApplyResults(applied)}\n\n`);
+  }
+
+  try {
+    await appendAuditEntries(storageUri, auditEntries);
+  } catch (e: any) {
+    stream.markdown(`⚠️ Failed to write audit log: \`${e.message}\`\n\n`);
+  }
+
+  return buildUndoSteps(executed);
+}
+
+/**
+ * Follows the rollouts started by the executed calls and attaches the outcome to each result,
+ * so the final answer can say whether the change actually converged.
+ */
+async function watchRollouts(
+  kc: import("@kubernetes/client-node").KubeConfig,
+  cfg: ExtensionConfig,
+  executed: ToolResult[],
+  stream: vscode.ChatResponseStream,
+  token: vscode.CancellationToken
+): Promise<void> {
+  for (const result of executed) {
+    if (!result.ok || !startsRollout(result)) {
+      continue;
+    }
+    const { namespace, name } = result.args;
+    result.rollout = await watchRollout(kc, namespace, name, cfg.rolloutTimeoutSeconds, stream, token);
+    stream.markdown(`\n${renderRolloutOutcome(result.rollout)}\n\n`);
+  }
+}
+
+async function queueUndo(
+  kc: import("@kubernetes/client-node").KubeConfig,
+  cfg: ExtensionConfig,
+  sessionKey: string,
+  stream: vscode.ChatResponseStream
+): Promise<void> {
+  const steps = undoBySession.get(sessionKey);
+  if (!steps?.length) {
+    stream.markdown("Nothing to undo in this session.");
+    return;
+  }
+
+  // The restore runs through the normal confirmation flow, including the dry-run diff
+  const plan: Plan = { summary: describeUndo(steps), toolCalls: buildRestoreCalls(steps), done: true };
+  const pending = await queuePendingActions(kc, cfg, sessionKey, "undo", plan, plan.toolCalls, []);
+  await promptForConfirmation(kc, cfg, sessionKey, stream, pending);
+}
+
+/**
+ * `apply this` applies the YAML in the active editor: the selection, or the whole file.
+ * Each document runs through the normal confirmation flow (permission check, dry-run diff,
+ * tier confirmation) and is applied server-side once confirmed; the planner is not involved.
+ */
+async function queueApply(
+  kc: import("@kubernetes/client-node").KubeConfig,
+  cfg: ExtensionConfig,
+  sessionKey: string,
+  stream: vscode.ChatResponseStream
+): Promise<void> {
+  const source = readActiveManifest();
+  if (!source?.text.trim()) {
+    stream.markdown("❌ Open a YAML manifest in the editor (or select the documents to apply) and ask again.");
+    return;
+  }
+
+  stream.progress(`Reading ${source.label}…`);
+  let calls: ToolCall[];
+  try {
+    calls = await buildApplyCalls(kc, source.text, cfg.defaultNamespace);
+  } catch (e: any) {
+    stream.markdown(`❌ Cannot apply \`${source.label}\`: ${e.message}. Nothing was applied.`);
+    return;
+  }
+
+  const denials: ToolResult[] = [];
+  const permittedCalls = filterDeniedCalls(calls, cfg.policy, kc.getCurrentContext(), denials, stream);
+  if (!permittedCalls.length) {
+    stream.markdown("Nothing was applied.");
+    return;
+  }
+
+  const plan: Plan = {
+    summary: `Apply ${permittedCalls.length} of ${calls.length} document(s) from ${source.label} with server-side apply`,
+    toolCalls: permittedCalls,
+    done: true
+  };
+  const pending = await queuePendingActions(kc, cfg, sessionKey, `apply ${source.label}`, plan, permittedCalls, denials);
+  await promptForConfirmation(kc, cfg, sessionKey, stream, pending);
+}
+
 async function runAgentLoop(
   userText: string,
   kc: import("@kubernetes/client-node").KubeConfig,
@@ -175,6 +467,8 @@ async function runAgentLoop(
   const allResults: ToolResult[] = initialResults ? [...initialResults] : [];
   let currentSummary = "";
   let iterationCount = 0;
+  const permissions = await loadPermissionSummary(kc, cfg.defaultNamespace);
+  const { vault } = getSessionRedaction(sessionKey);
 
   while (iterationCount < MAX_ITERATIONS) {
     iterationCount++;
@@ -186,14 +480,16 @@ async function runAgentLoop(
         userText,
         {
           defaultNamespace: cfg.defaultNamespace,
-          allowedNamespaces: [...cfg.allowedNamespaces],
-          maxReplicas: cfg.maxReplicas,
-          allowedImages: cfg.allowedImages
+          policy: describePolicy(cfg.policy),
+          permissions
         },
-        allResults,
+        redactResults(withoutObjectBodies(allResults), cfg.redaction, vault),
         token,
         modelFamily
       );
+      // The planner may copy placeholders into args; they are resolved locally before execution
+      plan.toolCalls = (plan.toolCalls ?? []).map(c => ({ ...c, args: revealValue(c.args, vault) }));
+      plan.toolCalls = dropInternalCalls(plan.toolCalls, allResults);
     } catch (e: any) {
       stream.markdown(`❌ Failed to plan request: \`${e.message}\``);
       return;
@@ -211,12 +507,15 @@ async function runAgentLoop(
     console.log("readonlyCalls:", JSON.stringify(readonlyCalls));
     console.log("mutatingCalls:", JSON.stringify(mutatingCalls));
 
-    await executeReadonlyCalls(kc, readonlyCalls, cfg, allResults);
+    await executeReadonlyCalls(kc, readonlyCalls, cfg, allResults, stream);
     console.log("Current results:", JSON.stringify(allResults));
 
-    if (mutatingCalls.length > 0) {
-      queuePendingActions(sessionKey, userText, plan, mutatingCalls, allResults);
-      promptForConfirmation(stream, plan, mutatingCalls);
+    // Denied mutations never reach the confirmation card; the planner sees the denial next iteration
+    const permittedCalls = filterDeniedCalls(mutatingCalls, cfg.policy, kc.getCurrentContext(), allResults, stream);
+
+    if (permittedCalls.length > 0) {
+      const pending = await queuePendingActions(kc, cfg, sessionKey, userText, plan, permittedCalls, allResults);
+      await promptForConfirmation(kc, cfg, sessionKey, stream, pending);
       return;
     }
 
@@ -230,7 +529,113 @@ async function runAgentLoop(
     stream.markdown(`⚠️ Reached maximum iterations (${MAX_ITERATIONS}). Stopping.\n\n`);
   }
 
-  await formatWithLm(userText, currentSummary, allResults, stream, modelFamily);
+  await formatWithLm(userText, currentSummary, allResults, cfg, sessionKey, stream, modelFamily);
+}
+
+/**
+ * `/context` lists kubeconfig contexts; `/context <name>` switches this session to it and
+ * `/context reset` returns to the kubeCopilot.context setting. Switching discards any pending
+ * plan and undo journal, since both were built against the previous cluster.
+ */
+function handleContextCommand(
+  query: string,
+  cfg: ExtensionConfig,
+  sessionKey: string,
+  stream: vscode.ChatResponseStream
+): void {
+  const kc = loadKubeConfig(stream);
+  if (!kc) {
+    return;
+  }
+  const configured = cfg.context || kc.getCurrentContext();
+  const active = contextBySession.get(sessionKey) || configured;
+
+  if (!query) {
+    const rows = kc.getContexts().map(c =>
+      `| ${c.name === active ? "▶" : ""} | \`${c.name}\` | ${c.cluster} | ${c.namespace ?? ""} | ${c.user} |`
+    );
+    stream.markdown(
+      `### Kube contexts\n| | Context | Cluster | Namespace | User |\n|---|---|---|---|---|\n${rows.join("\n")}\n\n` +
+      `Switch with \`/context <name>\`, or \`/context reset\` to use \`${configured}\` again.`
+    );
+    return;
+  }
+
+  const target = query === "reset" ? configured : query;
+  if (!kc.getContextObject(target)) {
+    stream.markdown(`❌ Context \`${target}\` not found in kubeconfig. Run \`/context\` to list available contexts.`);
+    return;
+  }
+  if (target !== active) {
+    pendingBySession.delete(sessionKey);
+    undoBySession.delete(sessionKey);
+  }
+  if (query === "reset") {
+    contextBySession.delete(sessionKey);
+  } else {
+    contextBySession.set(sessionKey, target);
+  }
+  kc.setCurrentContext(target);
+  stream.markdown(`✅ This session now runs against ${describeKubeTarget(kc)}.`);
+}
+
+function handleRevealCommand(query: string, sessionKey: string, stream: vscode.ChatResponseStream): void {
+  const redaction = getSessionRedaction(sessionKey);
+  if (/^(on|off)$/i.test(query)) {
+    redaction.reveal = query.toLowerCase() === "on";
+  }
+  stream.markdown(
+    redaction.reveal
+      ? "🔓 Sensitive values are **revealed** in this chat. The model still only sees redacted placeholders. Use `/reveal off` to hide them."
+      : "🔒 Sensitive values are **redacted** in this chat and in model input. Use `/reveal on` to show them locally."
+  );
+}
+
+// Masks diff values for display unless the session opted into revealing them
+function displayValue(cfg: ExtensionConfig, sessionKey: string): (value: any, path: string) => any {
+  const redaction = getSessionRedaction(sessionKey);
+  if (redaction.reveal) {
+    return value => value;
+  }
+  return (value, path) => redactValue(value, cfg.redaction, redaction.vault, path.split(/[.[\]]/).filter(Boolean).pop());
+}
+
+async function handleAuditCommand(
+  query: string,
+  storageUri: vscode.Uri,
+  stream: vscode.ChatResponseStream
+): Promise<void> {
+  try {
+    const filter = parseAuditFilter(query);
+    const entries = filterAuditEntries(await readAuditLog(storageUri), filter);
+    stream.markdown(`### Audit log\n${renderAuditEntries(entries)}`);
+  } catch (e: any) {
+    stream.markdown(`❌ Failed to read audit log: \`${e.message}\``);
+  }
+}
+
+async function loadPermissionSummary(
+  kc: import("@kubernetes/client-node").KubeConfig,
+  namespace: string
+): Promise<PermissionSummary | undefined> {
+  try {
+    return await summarizePermissions(kc, namespace);
+  } catch (e: any) {
+    console.warn("Failed to summarize permissions:", errorMessage(e));
+    return undefined;
+  }
+}
+
+// Internal tools write whatever their args carry (a snapshot, a manifest) and are only issued
+// by /undo and /apply after their own checks; the planner sees a refusal instead
+function dropInternalCalls(toolCalls: ToolCall[], allResults: ToolResult[]): ToolCall[] {
+  return toolCalls.filter(call => {
+    if (!isInternalTool(call.tool)) {
+      return true;
+    }
+    allResults.push({ tool: call.tool, args: call.args, ok: false, result: `${call.tool} is not an available tool` });
+    return false;
+  });
 }
 
 function splitToolCalls(toolCalls: ToolCall[]): { readonlyCalls: ToolCall[]; mutatingCalls: ToolCall[] } {
@@ -244,50 +649,185 @@ async function executeReadonlyCalls(
   kc: import("@kubernetes/client-node").KubeConfig,
   calls: ToolCall[],
   cfg: ExtensionConfig,
-  allResults: ToolResult[]
+  allResults: ToolResult[],
+  stream: vscode.ChatResponseStream
 ): Promise<void> {
   for (const call of calls) {
-    const result = await executeTool(kc, call, cfg.allowedNamespaces, cfg.allowedImages, cfg.maxReplicas);
+    const result = await executeTool(kc, call, cfg.policy);
+    reportDenial(stream, result);
     allResults.push(result);
   }
 }
 
-function queuePendingActions(
+function filterDeniedCalls(
+  calls: ToolCall[],
+  policy: Policy,
+  context: string,
+  allResults: ToolResult[],
+  stream: vscode.ChatResponseStream
+): ToolCall[] {
+  return calls.filter(call => {
+    const decision = evaluatePolicy(policy, call, context);
+    if (decision.allowed) {
+      return true;
+    }
+    const denial = policyDenial(call, decision);
+    reportDenial(stream, denial);
+    allResults.push(denial);
+    return false;
+  });
+}
+
+function reportDenial(stream: vscode.ChatResponseStream, result: ToolResult): void {
+  if (!result.denied) {
+    return;
+  }
+  stream.markdown(
+    `⛔ **${result.tool}** denied by policy:\n` +
+    result.denied.map(v => `- _${v.rule}_: ${v.message}`).join("\n") +
+    `\n\n`
+  );
+}
+
+async function queuePendingActions(
+  kc: import("@kubernetes/client-node").KubeConfig,
+  cfg: ExtensionConfig,
   sessionKey: string,
   userText: string,
   plan: Plan,
   mutatingCalls: ToolCall[],
   priorResults: ToolResult[]
-): void {
-  pendingBySession.set(sessionKey, {
+): Promise<PendingAction> {
+  const context = kc.getCurrentContext();
+  const calls: ToolCall[] = [];
+  const targetVersions: PendingAction["targetVersions"] = [];
+  for (const call of mutatingCalls) {
+    calls.push(await pinToolTargets(kc, call));
+    const target = await captureToolTarget(kc, call);
+    targetVersions.push(target === undefined ? undefined : target?.metadata?.resourceVersion ?? null);
+  }
+
+  const pending: PendingAction = {
+    id: crypto.randomUUID().slice(0, 8),
+    hash: hashPlan(context, calls),
+    expiresAt: Date.now() + cfg.confirmationTtlSeconds * 1000,
     originalUserText: userText,
+    context,
     plan,
-    pendingToolCalls: mutatingCalls,
-    priorResults
-  });
+    pendingToolCalls: calls,
+    priorResults,
+    targetVersions
+  };
+  pendingBySession.set(sessionKey, pending);
+  return pending;
+}
+
+export function isPlanExpired(pending: Pick<PendingAction, "expiresAt">, now = Date.now()): boolean {
+  return now > pending.expiresAt;
+}
+
+export function hashPlan(context: string, calls: ToolCall[]): string {
+  return crypto.createHash("sha256").update(JSON.stringify({ context, calls })).digest("hex").slice(0, 12);
 }
 
-function promptForConfirmation(
+/**
+ * Returns why the pending plan's targets no longer match what was reviewed, or undefined if they
+ * still do: a target's resourceVersion moved (or it appeared/disappeared) since planning.
+ * Targets that could not be read are not compared.
+ */
+async function findStaleTargets(
+  kc: import("@kubernetes/client-node").KubeConfig,
+  pending: PendingAction
+): Promise<string | undefined> {
+  const changed: string[] = [];
+  for (const [i, call] of pending.pendingToolCalls.entries()) {
+    const planned = pending.targetVersions[i];
+    if (planned === undefined) {
+      continue;
+    }
+    const target = await captureToolTarget(kc, call);
+    if (target === undefined) {
+      continue;
+    }
+    const current = target?.metadata?.resourceVersion ?? null;
+    if (current !== planned) {
+      changed.push(`**${call.tool}** \`${call.args.name ?? ""}\` (resourceVersion ${planned ?? "none"} → ${current ?? "none"})`);
+    }
+  }
+  return changed.length ? `Targets changed since planning: ${changed.join(", ")}.` : undefined;
+}
+
+async function promptForConfirmation(
+  kc: import("@kubernetes/client-node").KubeConfig,
+  cfg: ExtensionConfig,
+  sessionKey: string,
   stream: vscode.ChatResponseStream,
-  plan: Plan,
-  mutatingCalls: ToolCall[]
-): void {
+  pending: PendingAction
+): Promise<void> {
+  const { plan, pendingToolCalls: mutatingCalls } = pending;
+  stream.progress("Checking permissions…");
+  const accessChecks = await preflightAccess(kc, mutatingCalls);
+  const accessWarning = renderAccessChecks(accessChecks);
+
+  stream.progress("Running server-side dry run…");
+  const previews = await previewMutations(kc, mutatingCalls, cfg.policy);
+  const rejected = previews.filter(p => !p.ok).length;
+
+  const context = kc.getCurrentContext();
+  const tier = mutatingCalls.some(c => classifyCallTier(cfg.policy, context, c) === "prod")
+    ? "prod"
+    : classifyTier(cfg.policy, context, getTargetNamespace(mutatingCalls[0]));
+  const prodTargets = getProdTargets(cfg.policy, context, mutatingCalls);
+
   stream.markdown(
     `### Planned changes\n` +
+    `🎯 Target: ${describeKubeTarget(kc)} · tier **${tier}**\n\n` +
     `**${plan.summary}**\n\n` +
-    mutatingCalls.map(c => `- **${c.tool}** ${JSON.stringify(c.args)} \n Behaviour: ${c.args.note || ""}`).join("\n") +
-    `\n\nClick **confirm** to proceed or **cancel** to stop.`
+    `Plan \`${pending.id}\` · hash \`${pending.hash}\` · expires in ${Math.round(cfg.confirmationTtlSeconds / 60)} min\n\n` +
+    (accessWarning ? `${accessWarning}\n\n` : "") +
+    renderPreviews(previews, displayValue(cfg, sessionKey)) +
+    (rejected ? `\n\n⚠️ ${rejected} of ${previews.length} change(s) were rejected by the API server in the dry run.` : "") +
+    (prodTargets.length
+      ? `\n\n🚨 ${describeTypedConfirmation(prodTargets)} Click **cancel** to stop.`
+      : `\n\nClick **confirm** to proceed or **cancel** to stop.`)
   );
-  stream.button({
-    command: 'kubeCopilot.kube.confirm',
-    title: vscode.l10n.t('Confirm')
-  });
+  // Production changes are confirmed by typing, never by a single click
+  if (!prodTargets.length) {
+    stream.button({
+      command: 'kubeCopilot.kube.confirm',
+      arguments: [pending.id],
+      title: vscode.l10n.t('Confirm')
+    });
+  }
   stream.button({
     command: 'kubeCopilot.kube.cancel',
     title: vscode.l10n.t('Cancel')
   });
 }
 
+export type ProdTarget = { namespace?: string; name?: string };
+
+function getProdTargets(policy: Policy, context: string, calls: ToolCall[]): ProdTarget[] {
+  return calls
+    .filter(c => classifyCallTier(policy, context, c) === "prod")
+    .map(c => ({ namespace: getTargetNamespace(c), name: c.args.name ?? c.args.manifest?.metadata?.name }));
+}
+
+// Every prod change must be acknowledged by its namespace or its resource name, and nothing else
+// may be typed, so a follow-up question that merely mentions the namespace never executes the plan
+export function matchesTypedConfirmation(userText: string, targets: ProdTarget[]): boolean {
+  const words = userText.split(/[\s,]+/).filter(Boolean);
+  const known = new Set(targets.flatMap(t => [t.namespace, t.name]).filter(Boolean));
+  return words.length > 0 &&
+    words.every(w => known.has(w)) &&
+    targets.every(t => (t.namespace && words.includes(t.namespace)) || (t.name && words.includes(t.name)));
+}
+
+function describeTypedConfirmation(targets: ProdTarget[]): string {
+  const expected = [...new Set(targets.map(t => t.namespace ?? t.name).filter(Boolean))];
+  return `This plan changes **production** targets. To proceed, type the namespace or resource name of each change ` +
+    `(e.g. ${expected.map(e => `\`${e}\``).join(" ")}).`;
+}
 
 /* =========================================================
  * Planner (Copilot LLM)
@@ -332,45 +872,87 @@ schema:
 IMPORTANT ABOUT THE FIELDS:
 - ALL RESPONSES MUST OBEY THE SCHEMA ABOVE
 - All information about the user's request,solution,analysis and everything must be captured in the "summary" field.
+- If a previous result has a "rollout" field, report whether the rollout completed; if it failed or timed out, explain the likely cause from the failing pods' reasons and events.
 - If any tool call is mutating (create/update/scale/delete), provide a detailed description about the behaviour of that operation after the change is applied for EACH mutating call and append it to summary.
 
 
 Allowed tools:
-listNamespaces, listNamespacedPod, listNamespacedEvent, listNamespacedDeployment, listNamespacedService, listNamespacedConfigMap, getService, getConfigMap, listIstioObject, getIstioObject, getNamespace, createNamespace, createPod, createDeployment, updateDeployment, updateDeploymentImage, createIstioObject, updateIstioObject, createConfigMap, updateConfigMap, createService, updateService, deleteDeployment, scaleDeployment, getDeploymentStatus, getDeployment, getDeploymentRefs, findServicesForDeployment, getVirtualServicesForService, getDestinationRulesForService
+listNamespaces, listNamespacedPod, listNamespacedEvent, listNamespacedDeployment, listNamespacedService, listNamespacedConfigMap, listNamespacedSecret, getSecretMetadata, getService, getConfigMap, listIstioObject, getIstioObject, listResource, getResource, getNamespace, listNodes, getNode, topPods, topNodes, cordonNode, uncordonNode, createNamespace, createPod, createDeployment, updateDeployment, updateDeploymentImage, createIstioObject, updateIstioObject, createConfigMap, updateConfigMap, createService, updateService, deleteDeployment, deleteResource, scaleDeployment, getDeploymentStatus, getDeployment, getDeploymentRefs, validateDeploymentRefs, findServicesForDeployment, getVirtualServicesForService, getDestinationRulesForService, getIngressesForService, getHttpRoutesForService, getPodLogs, getRolloutHistory, rollbackDeployment, restartWorkload, listNamespacedStatefulSet, getStatefulSet, getStatefulSetStatus, getStatefulSetRefs, scaleStatefulSet, updateStatefulSetImage, listNamespacedDaemonSet, getDaemonSet, getDaemonSetStatus, getDaemonSetRefs, updateDaemonSetImage, listNamespacedJob, listNamespacedCronJob, createJobFromCronJob, suspendCronJob, resumeCronJob, deleteFinishedJobs, listNamespacedHorizontalPodAutoscaler, getHorizontalPodAutoscaler, updateHpaReplicaBounds
 
 createPod args: { namespace: string, name: string, image: string }
 createDeployment args: { namespace: string, name: string, image: string, replicas?: number, port?: number }
 updateDeployment args: { namespace: string, name: string, patch: object } // patch is a strategic merge patch object for the deployment with updated fields
 updateDeploymentImage args: { namespace: string, name: string, image: string }
 deleteDeployment args: { namespace: string, name: string }
+deleteResource args: { kind: string, apiVersion?: string, namespace?: string, name?: string, labelSelector?: string, propagationPolicy?: "Background" | "Foreground" | "Orphan", gracePeriodSeconds?: number } // exactly one of name/labelSelector; a selector may match at most 50 objects; any kind except Namespace; Orphan keeps owned objects (e.g. a Deployment's pods)
 createService args: { namespace: string, name: string, selector: object, port: number, targetPort?: number, type?: string }
 updateService args: { namespace: string, name: string, selector?: object, port?: number, targetPort?: number, type?: string }
 createConfigMap args: { namespace: string, name: string, data?: object, binaryData?: object }
 updateConfigMap args: { namespace: string, name: string, data?: object, binaryData?: object }
 createIstioObject args: { namespace: string, kind: string, manifest: object }
 updateIstioObject args: { namespace: string, kind: string, name: string, patch: object }
-scaleDeployment args: { namespace: string, name: string, replicas: number }
+scaleDeployment args: { namespace: string, name: string, replicas: number } // refused if an HPA targets the deployment
+listNamespacedHorizontalPodAutoscaler args: { namespace: string, labelSelector?: string, limit?: number, continueToken?: string } // shows each HPA's target workload
+getHorizontalPodAutoscaler args: { namespace: string, name: string } // target, min/max, current/desired replicas, metrics, conditions
+updateHpaReplicaBounds args: { namespace: string, name: string, minReplicas?: number, maxReplicas?: number }
+restartWorkload args: { namespace: string, kind: "Deployment" | "StatefulSet" | "DaemonSet", name: string } // rolling restart, like kubectl rollout restart
+rollbackDeployment args: { namespace: string, name: string, revision?: number } // restores that revision's pod template; defaults to the previous revision
 listNamespacedPod args: { namespace: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string }
-listNamespacedEvent args: { namespace: string, podName?: string }
+listNamespacedEvent args: { namespace: string, podName?: string, kind?: string, name?: string, warningsOnly?: boolean, limit?: number } // filters by involved object (podName, or kind + name); newest first with type, reason, count and first/last seen
 listNamespacedDeployment args: { namespace: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string }
 listNamespacedService args: { namespace: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string }
 listNamespacedConfigMap args: { namespace: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string }
-listIstioObject args: { namespace: string, kind: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string } // kind can be VirtualService, DestinationRule, Gateway, etc.
+listIstioObject args: { namespace: string, kind: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string } // kind can be VirtualService, DestinationRule, Gateway, etc.; Istio (*.istio.io) kinds only
 getIstioObject args: { namespace: string, kind: string, name: string }
+listResource args: { kind: string, apiVersion?: string, namespace?: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string } // any kind the cluster serves (CRDs included), by kind, plural, short name or "plural.group"; namespace required for namespaced kinds
+getResource args: { kind: string, apiVersion?: string, namespace?: string, name: string }
 getService args: { namespace: string, name: string }
 getConfigMap args: { namespace: string, name: string }
+listNamespacedSecret args: { namespace: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string } // metadata only, never values
+getSecretMetadata args: { namespace: string, name: string } // type, key names, value byte lengths, TLS certificate expiry, last modification; values are never returned
 getNamespace args: { name: string }
 createNamespace args: { name: string }
+listNodes args: { labelSelector?: string, limit?: number, continueToken?: string } // conditions, taints, cordon state, kubelet version, allocatable vs requested CPU/memory
+getNode args: { name: string }
+topPods args: { namespace: string, labelSelector?: string, sortBy?: "cpu" | "memory", limit?: number } // live usage per pod/container with % of requests and limits (metrics-server)
+topNodes args: { labelSelector?: string, sortBy?: "cpu" | "memory", limit?: number } // live usage per node with % of allocatable
+cordonNode args: { name: string } // marks the node unschedulable; running pods stay
+uncordonNode args: { name: string }
 getDeploymentStatus args: { namespace: string, name: string }
 getDeployment args: { namespace: string, name: string }
 getDeploymentRefs args: { namespace: string, name: string }
-findServicesForDeployment args: { namespace: string, deploymentName: string }
+validateDeploymentRefs args: { namespace: string, name: string, kind?: "Deployment" | "StatefulSet" | "DaemonSet" } // checks every ConfigMap/Secret reference (keys, volume items, imagePullSecrets) and the service account; reports missing objects/keys and whether they are optional
+findServicesForDeployment args: { namespace: string, deploymentName: string, kind?: "Deployment" | "StatefulSet" | "DaemonSet" } // deploymentName is the workload name for any kind
+listNamespacedStatefulSet args: { namespace: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string }
+getStatefulSet args: { namespace: string, name: string }
+getStatefulSetStatus args: { namespace: string, name: string }
+getStatefulSetRefs args: { namespace: string, name: string }
+scaleStatefulSet args: { namespace: string, name: string, replicas: number }
+updateStatefulSetImage args: { namespace: string, name: string, image: string }
+listNamespacedDaemonSet args: { namespace: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string }
+getDaemonSet args: { namespace: string, name: string }
+getDaemonSetStatus args: { namespace: string, name: string }
+getDaemonSetRefs args: { namespace: string, name: string }
+listNamespacedJob args: { namespace: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string }
+listNamespacedCronJob args: { namespace: string, labelSelector?: string, fieldSelector?: string, limit?: number, continueToken?: string } // includes last schedule time and succeeded/failed counts of retained Jobs
+createJobFromCronJob args: { namespace: string, cronJobName: string, name: string } // runs the CronJob's job template now ("run the nightly export now"); pick a name like <cronJobName>-manual-<short suffix>
+suspendCronJob args: { namespace: string, name: string }
+resumeCronJob args: { namespace: string, name: string }
+deleteFinishedJobs args: { namespace: string, labelSelector?: string, names?: string[] } // deletes only Complete/Failed Jobs (and their pods); running Jobs are never touched
+updateDaemonSetImage args: { namespace: string, name: string, image: string } // DaemonSets run one pod per matching node and cannot be scaled
 getVirtualServicesForService args: { namespace: string, serviceName: string }
 getDestinationRulesForService args: { namespace: string, serviceName: string }
+getIngressesForService args: { namespace: string, serviceName: string } // networking.k8s.io/v1 Ingresses routing to the service: hosts, paths, TLS secrets, backend ports
+getHttpRoutesForService args: { namespace: string, serviceName: string } // Gateway API HTTPRoutes routing to the service, with parent Gateway listeners and TLS secrets
+getRolloutHistory args: { namespace: string, name: string } // ReplicaSet revisions of a deployment with images, change-cause and creation time
+getPodLogs args: { namespace: string, podName?: string, deploymentName?: string, container?: string, tailLines?: number, sinceSeconds?: number, previous?: boolean } // one of podName/deploymentName; previous=true reads the last terminated container (crash loops); tailLines is capped at 200
 
 IMPORTANT MULTI-STEP LOGIC:
-- For queries like "resources associated with deployment X" or "what configmaps does deployment X use", NEVER call listNamespacedConfigMap; instead call getDeploymentRefs and then getConfigMap for the referenced names.
+- For queries like "resources associated with deployment X" or "what configmaps does deployment X use", NEVER call listNamespacedConfigMap; instead call getDeploymentRefs and then getConfigMap for the referenced names. Use getStatefulSetRefs / getDaemonSetRefs for StatefulSets and DaemonSets (databases are usually StatefulSets, node agents DaemonSets).
 - For Istio routing queries for a service/deployment, NEVER call listIstioObject to scan the namespace; instead call findServicesForDeployment (if starting from a deployment) then call getVirtualServicesForService and getDestinationRulesForService for each discovered service.
+- For "how is service X exposed" / external routing queries, also call getIngressesForService and getHttpRoutesForService; many services are exposed via Ingress or Gateway API instead of Istio.
+- For kinds without a dedicated tool (cert-manager Certificates, Argo Rollouts, KEDA ScaledObjects, operator CRDs, ...), use listResource/getResource. If the result lists "alternatives", the kind exists in several API groups; pass apiVersion to pick one.
+- To delete anything other than a Deployment (stale Services, ConfigMaps, Pods, Istio objects, CRDs), use deleteResource. Only set propagationPolicy or gracePeriodSeconds when the user asks for them.
 - Avoid namespace-wide list* scans unless the user explicitly asks to list all objects; prefer reference-first tools.
 - If you need information from one tool before calling another, plan ONE step at a time
 - If mutating tool calls depend on each other, plan ONLY the prerequisite mutating tool calls first and set "done": false so the next iteration can plan the dependent calls
@@ -380,12 +962,24 @@ IMPORTANT MULTI-STEP LOGIC:
 - For any list* tool call, ALWAYS include a small limit (e.g., 50) and a labelSelector or fieldSelector when possible.
 - If you cannot identify any safe filter for a list* call, ask a clarification question instead of listing everything.
 - Field selectors only filter metadata and status fields, NOT spec. For Istio objects, prefer labelSelector or getIstioObject by name.
-- Always look at events from listNamespacedEvent to determine pod health,failure reasons, etc.
+- Always look at events from listNamespacedEvent to determine pod health,failure reasons, etc. Pass podName (or kind + name) for a specific object and warningsOnly=true when looking for failures, instead of reading every event in the namespace.
+- For CPU/memory usage questions ("which pod uses the most memory"), call topPods/topNodes. If the result has available=false, tell the user metrics-server is unavailable; do not retry.
+- For Pending pods, check the pod's FailedScheduling events, then listNodes/getNode for taints, cordon state, conditions and requested vs allocatable capacity. For "which node is this pod on and is it healthy", use the pod's nodeName with getNode.
+- For pods in CreateContainerConfigError, stuck in ContainerCreating with FailedMount, or failing to pull with imagePullSecrets, call validateDeploymentRefs on the owning workload.
+- updateConfigMap does NOT restart pods. When planning updateConfigMap, set done=false; once it has run, if getDeploymentRefs results show workloads referencing that ConfigMap (call getDeploymentRefs if you do not know them yet), offer restartWorkload for each of them so the pods pick up the change.
+- Before scaleDeployment or scaleStatefulSet, check listNamespacedHorizontalPodAutoscaler; if an HPA targets the workload, propose updateHpaReplicaBounds instead, because the HPA would revert a manual scale.
+- To check secrets referenced by getDeploymentRefs (existence, keys, rotation, certificate expiry), call getSecretMetadata for each name. Secret values are never available; do not try to obtain them through other tools.
+- For "what changed in the last deploy" or "roll back X", call getRolloutHistory first, then rollbackDeployment with the chosen revision.
+- For crashing or erroring pods, call getPodLogs (with previous=true for CrashLoopBackOff / restarted containers). When starting from a deployment, pass deploymentName instead of listing pods first.
 - Example: To list all pods in all namespaces:
   * First iteration: Call listNamespaces, set done=false
   * Second iteration: Use the namespace results to call listNamespacedPod for each namespace, set done=true
 - Always include istio resources when analyzing services, deployments, pods.
 Previous tool results will be provided to help you plan the next step.
+- Tool calls are checked against this policy before execution; a call that violates it is denied (result has "denied"). Do not retry denied calls, explain the denial instead.
+Policy: ${JSON.stringify(ctx.policy)}
+- The current identity's RBAC permissions in the default namespace are listed below (when available). Do not propose calls that need verbs it lacks; tell the user instead.
+Permissions: ${ctx.permissions ? JSON.stringify(ctx.permissions) : "unknown"}
 - For list calls, always include limit (e.g., 50) and prefer labelSelector/fieldSelector when possible. Use continueToken to paginate.”
 
 If the request is simple (like listing namespaces), still return JSON with done=true.
@@ -679,7 +1273,33 @@ function fallbackPlan(userText: string, defaultNamespace: string, priorResults:
  * Response formatting
  * ========================================================= */
 
-async function formatWithLm(userText: string, summary: string, results: ToolResult[], stream: vscode.ChatResponseStream, modelFamily: string): Promise<string> {
+// Undo snapshots and applied manifests are whole object bodies, Secret data included, which key-name
+// and pattern redaction cannot fully mask; the model only needs to know which object was touched
+function withoutObjectBodies(results: ToolResult[]): ToolResult[] {
+  return results.map(r => {
+    if (r.tool === "applyManifest") {
+      const { kind, namespace, name } = r.args;
+      return { ...r, args: { kind, namespace, name } };
+    }
+    if (r.args?.snapshot === undefined) {
+      return r;
+    }
+    const { snapshot, ...args } = r.args;
+    return { ...r, args };
+  });
+}
+
+async function formatWithLm(
+  userText: string,
+  summary: string,
+  rawResults: ToolResult[],
+  cfg: ExtensionConfig,
+  sessionKey: string,
+  stream: vscode.ChatResponseStream,
+  modelFamily: string
+): Promise<string> {
+  const redaction = getSessionRedaction(sessionKey);
+  const results = redactResults(withoutObjectBodies(rawResults), cfg.redaction, redaction.vault);
   const lm = vscode.lm;
   if (!lm) return JSON.stringify(results, null, 2);
 
@@ -689,17 +1309,22 @@ async function formatWithLm(userText: string, summary: string, results: ToolResu
 
   const messages = [
     vscode.LanguageModelChatMessage.User(`Request: ${userText}\nSummary: ${summary}\nResults: ${JSON.stringify(results)}`),
-    vscode.LanguageModelChatMessage.Assistant(`Format a concise markdown response. Explain what happened, successes, and any failures.`)
+    vscode.LanguageModelChatMessage.Assistant(`Format a concise markdown response. Explain what happened, successes, and any failures. If a result has a "rollout" field, say whether the rollout completed; if it failed or timed out, explain the likely cause from the failing pods' reasons and events.`)
   ]
 
   const resp = await model.sendRequest(
     messages
   );
 
+  // Placeholders in the model's answer are swapped back only in the local output
+  const revealer = redaction.reveal ? createStreamRevealer(redaction.vault) : undefined;
   let responseText = "";
   for await (const chunk of resp.text) {
     responseText += chunk;
-    stream.markdown(chunk)
+    stream.markdown(revealer ? revealer.push(chunk) : chunk);
+  }
+  if (revealer) {
+    stream.markdown(revealer.flush());
   }
   return responseText;
 }
@@ -720,6 +1345,12 @@ Examples:
 - What namespaces exist?
 - Is my-app healthy?
 
-You will be asked to **confirm** before any changes are made.
+You will be asked to **confirm** before any changes are made. Reply **undo** afterwards to restore the objects you just changed.
+
+Say **apply this** to apply the YAML open in the editor (or the selected part of it).
+
+Use \`/context\` to list or switch kube contexts for this session.
+Use \`/reveal on|off\` to show or hide redacted values in this chat (the model never sees them).
+Use \`/audit\` to search confirmed changes, e.g. \`/audit namespace=dev resource=web since=2026-01-01\`.
 `;
 }
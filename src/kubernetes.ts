@@ -1,5 +1,9 @@
 import * as vscode from "vscode";
 import * as k8s from "@kubernetes/client-node";
+import { X509Certificate } from "crypto";
+import { ResolvedResource, resolveResource } from "./discovery";
+import { evaluatePolicy, Policy, policyDenial, PolicyViolation } from "./policy";
+import { RolloutOutcome } from "./rollout";
 
 export type ToolName =
   | "listNamespaces"
@@ -10,9 +14,19 @@ export type ToolName =
   | "getService"
   | "listNamespacedConfigMap"
   | "getConfigMap"
+  | "listNamespacedSecret"
+  | "getSecretMetadata"
   | "listIstioObject"
   | "getIstioObject"
+  | "listResource"
+  | "getResource"
   | "getNamespace"
+  | "listNodes"
+  | "topPods"
+  | "topNodes"
+  | "getNode"
+  | "cordonNode"
+  | "uncordonNode"
   | "createNamespace"
   | "createPod"
   | "createDeployment"
@@ -25,13 +39,43 @@ export type ToolName =
   | "createService"
   | "updateService"
   | "deleteDeployment"
+  | "deleteResource"
   | "scaleDeployment"
   | "getDeploymentStatus"
   | "getDeployment"
   | "getDeploymentRefs"
+  | "validateDeploymentRefs"
   | "findServicesForDeployment"
   | "getVirtualServicesForService"
-  | "getDestinationRulesForService";
+  | "getDestinationRulesForService"
+  | "getIngressesForService"
+  | "getHttpRoutesForService"
+  | "getPodLogs"
+  | "getRolloutHistory"
+  | "rollbackDeployment"
+  | "restartWorkload"
+  | "listNamespacedStatefulSet"
+  | "getStatefulSet"
+  | "getStatefulSetStatus"
+  | "getStatefulSetRefs"
+  | "scaleStatefulSet"
+  | "updateStatefulSetImage"
+  | "listNamespacedDaemonSet"
+  | "getDaemonSet"
+  | "getDaemonSetStatus"
+  | "getDaemonSetRefs"
+  | "updateDaemonSetImage"
+  | "listNamespacedJob"
+  | "listNamespacedCronJob"
+  | "createJobFromCronJob"
+  | "suspendCronJob"
+  | "resumeCronJob"
+  | "deleteFinishedJobs"
+  | "listNamespacedHorizontalPodAutoscaler"
+  | "getHorizontalPodAutoscaler"
+  | "updateHpaReplicaBounds"
+  | "applyManifest"
+  | "restoreObject";
 
 export type ToolCall = {
   tool: ToolName;
@@ -43,17 +87,48 @@ export type ToolResult = {
   args: Record<string, any>;
   ok: boolean;
   result: any;
+  denied?: PolicyViolation[]; // Set when the policy engine blocked the call before it reached the cluster
+  rollout?: RolloutOutcome; // Set after a confirmed call that starts a rollout was watched to completion
 };
 
+export type ExecuteOptions = {
+  dryRun?: boolean; // Runs mutating tools with dryRun=All; nothing is persisted
+};
+
+// Log output is capped before it reaches the model; tailLines above this are clamped
+const MAX_LOG_LINES = 200;
+const MAX_LOG_LINE_LENGTH = 500;
+const MAX_LOG_PODS = 5;
+
+// Field manager for server-side apply, so `managedFields` shows which fields this extension owns
+const FIELD_MANAGER = "kube-copilot";
+
+// Label-selector deletes refuse to touch more objects than this in one call
+const MAX_BULK_DELETE = 50;
+const MAX_DEPENDENTS = 50;
+const PROPAGATION_POLICIES = ["Background", "Foreground", "Orphan"];
+
+// Events are sorted client-side, so more are fetched than the tool returns
+const MAX_EVENTS_FETCHED = 500;
+
+const REVISION_ANNOTATION = "deployment.kubernetes.io/revision";
+const CHANGE_CAUSE_ANNOTATION = "kubernetes.io/change-cause";
+
 type OkOptions = {
   summarizeList?: boolean;
   kindHint?: string;
 };
 
-export function loadKubeConfig(stream: vscode.ChatResponseStream): k8s.KubeConfig | null {
+export function loadKubeConfig(stream: vscode.ChatResponseStream, contextName?: string): k8s.KubeConfig | null {
   const kc = new k8s.KubeConfig();
   try {
     kc.loadFromDefault();
+    if (contextName) {
+      if (!kc.getContextObject(contextName)) {
+        throw new Error(`Context "${contextName}" not found in kubeconfig`);
+      }
+      kc.setCurrentContext(contextName);
+    }
     return kc;
   } catch (e: any) {
     stream.markdown(`❌ Failed to load kubeconfig: \`${e.message}\``);
@@ -61,6 +136,11 @@ export function loadKubeConfig(stream: vscode.ChatResponseStream): k8s.KubeConfi
   }
 }
 
+export function describeKubeTarget(kc: k8s.KubeConfig): string {
+  const cluster = kc.getCurrentCluster();
+  return `cluster \`${cluster?.name ?? "unknown"}\`${cluster?.server ? ` (${cluster.server})` : ""} · context \`${kc.getCurrentContext()}\``;
+}
+
 export function isMutating(tool: ToolName): boolean {
   return tool === "createNamespace" ||
     tool === "createPod" ||
@@ -74,16 +154,46 @@ export function isMutating(tool: ToolName): boolean {
     tool === "createService" ||
     tool === "updateService" ||
     tool === "deleteDeployment" ||
-    tool === "scaleDeployment";
+    tool === "deleteResource" ||
+    tool === "scaleDeployment" ||
+    tool === "rollbackDeployment" ||
+    tool === "restartWorkload" ||
+    tool === "scaleStatefulSet" ||
+    tool === "updateStatefulSetImage" ||
+    tool === "updateDaemonSetImage" ||
+    tool === "createJobFromCronJob" ||
+    tool === "suspendCronJob" ||
+    tool === "resumeCronJob" ||
+    tool === "deleteFinishedJobs" ||
+    tool === "updateHpaReplicaBounds" ||
+    tool === "cordonNode" ||
+    tool === "uncordonNode" ||
+    tool === "applyManifest" ||
+    tool === "restoreObject";
+}
+
+// Tools the extension issues itself from /undo and /apply; never accepted from the planner
+export function isInternalTool(tool: ToolName): boolean {
+  return tool === "restoreObject" || tool === "applyManifest";
+}
+
+// Tools whose effect cannot be reviewed field-by-field; blocked on prod-tier targets by default
+export function isDestructive(tool: ToolName): boolean {
+  return tool === "deleteDeployment" || tool === "deleteResource" || tool === "deleteFinishedJobs";
 }
 
 export async function executeTool(
   kc: k8s.KubeConfig,
   call: ToolCall,
-  allowedNamespaces: Set<string>,
-  allowedImages: string[],
-  maxReplicas: number
+  policy: Policy,
+  options: ExecuteOptions = {}
 ): Promise<ToolResult> {
+  const decision = evaluatePolicy(policy, call, kc.getCurrentContext());
+  if (!decision.allowed) {
+    return policyDenial(call, decision);
+  }
+
+  const dryRun = options.dryRun ? "All" : undefined;
   try {
     switch (call.tool) {
       case "listNamespaces": {
@@ -95,7 +205,6 @@ export async function executeTool(
 
       case "listNamespacedPod": {
         const namespace = call.args.namespace;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         const labelSelector = call.args.labelSelector;
         const fieldSelector = call.args.fieldSelector;
         const limit = call.args.limit ?? 50;
@@ -117,23 +226,27 @@ export async function executeTool(
 
       case "listNamespacedEvent": {
         const namespace = call.args.namespace || "default";
-        const podName = call.args.podName;
+        const { podName, warningsOnly } = call.args;
+        const limit = call.args.limit ?? 50;
 
-        const core = kc.makeApiClient(k8s.CoreV1Api);
-        const res = await core.listNamespacedEvent(namespace, undefined, undefined, undefined, `involvedObject.namespace=${namespace}`);
-        console.log("res: " + JSON.stringify(res))
-        return ok(call, res.body.items.map(i => {
-          return {
-            "name": i.metadata?.name,
-            "message": i?.message,
-            "namespace": i.metadata?.namespace
-          }
-        }));
+        // Field selectors match the exact kind, so "deployment" is resolved to "Deployment"
+        let kind: string | undefined = podName ? "Pod" : call.args.kind;
+        if (kind && !podName) {
+          kind = (await resolveResource(kc, kind).catch(() => undefined))?.kind ?? kind;
+        }
+        const events = await listEvents(kc, namespace, { kind, name: podName ?? call.args.name, warningsOnly: Boolean(warningsOnly) });
+        // Newest first, so the limit keeps the most recent events
+        events.items.sort((a, b) => (b.lastSeen ?? "").localeCompare(a.lastSeen ?? ""));
+        return ok(call, {
+          namespace,
+          api: events.api,
+          total: events.items.length,
+          items: events.items.slice(0, limit)
+        });
       }
 
       case "listNamespacedDeployment": {
         const namespace = call.args.namespace;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         const labelSelector = call.args.labelSelector;
         const fieldSelector = call.args.fieldSelector;
         const limit = call.args.limit ?? 50;
@@ -154,7 +267,6 @@ export async function executeTool(
 
       case "listNamespacedService": {
         const namespace = call.args.namespace;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         const labelSelector = call.args.labelSelector;
         const fieldSelector = call.args.fieldSelector;
         const limit = call.args.limit ?? 50;
@@ -175,7 +287,6 @@ export async function executeTool(
 
       case "getService": {
         const { namespace, name } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
 
         const core = kc.makeApiClient(k8s.CoreV1Api);
         const res = await core.readNamespacedService(name, namespace);
@@ -184,7 +295,6 @@ export async function executeTool(
 
       case "listNamespacedConfigMap": {
         const namespace = call.args.namespace;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         const labelSelector = call.args.labelSelector;
         const fieldSelector = call.args.fieldSelector;
         const limit = call.args.limit ?? 50;
@@ -205,22 +315,48 @@ export async function executeTool(
 
       case "getConfigMap": {
         const { namespace, name } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
 
         const core = kc.makeApiClient(k8s.CoreV1Api);
         const res = await core.readNamespacedConfigMap(name, namespace);
         return ok(call, res.body);
       }
 
+      case "listNamespacedSecret": {
+        const namespace = call.args.namespace;
+        const labelSelector = call.args.labelSelector;
+        const fieldSelector = call.args.fieldSelector;
+        const limit = call.args.limit ?? 50;
+        const continueToken = call.args.continueToken;
+
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        const res = await core.listNamespacedSecret(
+          namespace,
+          undefined,
+          undefined,
+          continueToken,
+          fieldSelector,
+          labelSelector,
+          limit
+        );
+        return ok(call, res.body, { summarizeList: true, kindHint: "Secret" });
+      }
+
+      case "getSecretMetadata": {
+        const { namespace, name } = call.args;
+
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        const res = await core.readNamespacedSecret(name, namespace);
+        return ok(call, summarizeK8sItem(res.body, "Secret"));
+      }
+
       case "listIstioObject": {
         const { namespace, kind } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         const labelSelector = call.args.labelSelector;
         const fieldSelector = call.args.fieldSelector;
         const limit = call.args.limit ?? 50;
         const continueToken = call.args.continueToken;
 
-        const { group, version, plural } = getIstioResource(kind);
+        const { group, version, plural } = await resolveIstioResource(kc, kind);
         const custom = kc.makeApiClient(k8s.CustomObjectsApi);
         const res = await custom.listNamespacedCustomObject(
           group,
@@ -240,15 +376,63 @@ export async function executeTool(
 
       case "getIstioObject": {
         const { namespace, kind, name } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
 
-        const { group, version, plural } = getIstioResource(kind);
+        const { group, version, plural } = await resolveIstioResource(kc, kind);
         const custom = kc.makeApiClient(k8s.CustomObjectsApi);
         const res = await custom.getNamespacedCustomObject(group, version, namespace, plural, name);
         console.log("res istio object: " + JSON.stringify(res))
         return ok(call, res.body);
       }
 
+      case "listResource": {
+        const { kind, apiVersion, namespace } = call.args;
+        const labelSelector = call.args.labelSelector;
+        const fieldSelector = call.args.fieldSelector;
+        const limit = call.args.limit ?? 50;
+        const continueToken = call.args.continueToken;
+
+        const resource = await resolveResource(kc, kind, { apiVersion });
+        if (resource.namespaced && !namespace) {
+          throw new Error(`${resource.kind} is namespaced; a namespace is required`);
+        }
+        const objects = k8s.KubernetesObjectApi.makeApiClient(kc);
+        const res = await objects.list(
+          resource.apiVersion,
+          resource.kind,
+          resource.namespaced ? namespace : undefined,
+          undefined,
+          undefined,
+          undefined,
+          fieldSelector,
+          labelSelector,
+          limit,
+          continueToken
+        );
+        const summary = ok(call, res.body, { summarizeList: true, kindHint: resource.kind });
+        return { ...summary, result: { resource: describeResource(resource), ...summary.result } };
+      }
+
+      case "getResource": {
+        const { kind, apiVersion, namespace, name } = call.args;
+
+        const resource = await resolveResource(kc, kind, { apiVersion });
+        if (resource.namespaced && !namespace) {
+          throw new Error(`${resource.kind} is namespaced; a namespace is required`);
+        }
+        const objects = k8s.KubernetesObjectApi.makeApiClient(kc);
+        const res = await objects.read({
+          apiVersion: resource.apiVersion,
+          kind: resource.kind,
+          metadata: { name, namespace: resource.namespaced ? namespace : undefined }
+        });
+        // Secrets only ever leave as metadata, whichever tool reads them
+        if (resource.group === "" && resource.kind === "Secret") {
+          return ok(call, summarizeK8sItem(res.body, "Secret"));
+        }
+        const { managedFields: _managedFields, ...metadata } = res.body.metadata ?? {};
+        return ok(call, { resource: describeResource(resource), object: { ...res.body, metadata } });
+      }
+
       case "getNamespace": {
         const core = kc.makeApiClient(k8s.CoreV1Api);
         const res = await core.readNamespace(call.args.name);
@@ -256,19 +440,120 @@ export async function executeTool(
         return ok(call, { name: res.body.metadata?.name });
       }
 
+      case "listNodes": {
+        const labelSelector = call.args.labelSelector;
+        const limit = call.args.limit ?? 50;
+        const continueToken = call.args.continueToken;
+
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        const res = await core.listNode(undefined, undefined, continueToken, undefined, labelSelector, limit);
+        const requests = await sumRequestsByNode(kc);
+        const summary = ok(call, res.body, { summarizeList: true, kindHint: "Node" });
+        summary.result.items = summary.result.items.map((node: any) => withRequested(node, requests.get(node.name)));
+        return summary;
+      }
+
+      case "getNode": {
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        const res = await core.readNode(call.args.name);
+        const requests = await sumRequestsByNode(kc, call.args.name);
+        return ok(call, withRequested(summarizeK8sItem(res.body, "Node"), requests.get(call.args.name)));
+      }
+
+      case "topPods": {
+        const { namespace, labelSelector } = call.args;
+        const sortBy = call.args.sortBy === "cpu" ? "cpu" : "memory";
+        const limit = call.args.limit ?? 10;
+
+        const metrics = await listMetrics(kc, "pods", namespace, labelSelector);
+        if (!metrics.available) {
+          return ok(call, metrics);
+        }
+
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        const pods = (await core.listNamespacedPod(namespace, undefined, undefined, undefined, undefined, labelSelector, 500)).body.items;
+        const specs = new Map(pods.map(p => [p.metadata?.name, p.spec?.containers ?? []]));
+
+        const rows = metrics.items.map((m: any) => {
+          const usage = (m?.containers ?? []).map((c: any) => ({
+            name: c?.name,
+            cpuMillis: parseCpuMillis(c?.usage?.cpu),
+            memoryBytes: parseBytes(c?.usage?.memory)
+          }));
+          const cpuMillis = usage.reduce((sum: number, c: any) => sum + c.cpuMillis, 0);
+          const memoryBytes = usage.reduce((sum: number, c: any) => sum + c.memoryBytes, 0);
+          const containers = usage.map((c: any) => {
+            const spec = specs.get(m?.metadata?.name)?.find(s => s.name === c.name);
+            return { name: c.name, ...usageRow(c.cpuMillis, c.memoryBytes, spec?.resources) };
+          });
+          return {
+            sortKey: sortBy === "cpu" ? cpuMillis : memoryBytes,
+            row: { pod: m?.metadata?.name, cpu: formatCpu(cpuMillis), memory: formatBytes(memoryBytes), containers }
+          };
+        });
+        rows.sort((a: any, b: any) => b.sortKey - a.sortKey);
+        return ok(call, {
+          namespace,
+          available: true,
+          sortBy,
+          podsMeasured: rows.length,
+          pods: rows.slice(0, limit).map((r: any) => r.row)
+        });
+      }
+
+      case "topNodes": {
+        const sortBy = call.args.sortBy === "memory" ? "memory" : "cpu";
+        const metrics = await listMetrics(kc, "nodes", undefined, call.args.labelSelector);
+        if (!metrics.available) {
+          return ok(call, metrics);
+        }
+
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        const nodes = (await core.listNode(undefined, undefined, undefined, undefined, call.args.labelSelector)).body.items;
+        const allocatable = new Map(nodes.map(n => [n.metadata?.name, n.status?.allocatable ?? {}]));
+        const rows = metrics.items.map((m: any) => {
+          const cpuMillis = parseCpuMillis(m?.usage?.cpu);
+          const memoryBytes = parseBytes(m?.usage?.memory);
+          const alloc = allocatable.get(m?.metadata?.name) ?? {};
+          return {
+            node: m?.metadata?.name,
+            cpu: formatCpu(cpuMillis),
+            cpuPercent: percentOf(cpuMillis, parseCpuMillis(alloc.cpu)),
+            memory: formatBytes(memoryBytes),
+            memoryPercent: percentOf(memoryBytes, parseBytes(alloc.memory))
+          };
+        });
+        rows.sort((a: any, b: any) => ((sortBy === "cpu" ? b.cpuPercent - a.cpuPercent : b.memoryPercent - a.memoryPercent) || 0));
+        return ok(call, { available: true, sortBy, nodes: rows.slice(0, call.args.limit ?? 20) });
+      }
+
+      case "cordonNode":
+      case "uncordonNode": {
+        const unschedulable = call.tool === "cordonNode";
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        const res = await core.patchNode(
+          call.args.name,
+          { spec: { unschedulable } },
+          undefined,
+          dryRun,
+          undefined,
+          undefined,
+          undefined,
+          { headers: { "Content-Type": "application/merge-patch+json" } }
+        );
+        return okMutation(call, options, res.body, { name: res.body.metadata?.name, unschedulable: res.body.spec?.unschedulable ?? false });
+      }
+
       case "createNamespace": {
         const name = call.args.name;
         const core = kc.makeApiClient(k8s.CoreV1Api);
-        const res = await core.createNamespace({ metadata: { name } } as any);
+        const res = await core.createNamespace({ metadata: { name } } as any, undefined, dryRun);
         console.log("res: " + JSON.stringify(res))
-        return ok(call, { name: res.body.metadata?.name });
+        return okMutation(call, options, res.body, { name: res.body.metadata?.name });
       }
 
       case "createPod": {
         const { namespace, name, image } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
-        // if (allowedImages.length && !allowedImages.some(p => image.startsWith(p)))
-          // throw new Error("Image not allowed");
 
         const core = kc.makeApiClient(k8s.CoreV1Api);
         const pod: k8s.V1Pod = {
@@ -280,18 +565,14 @@ export async function executeTool(
             containers: [{ name: "main", image }]
           }
         };
-        const res = await core.createNamespacedPod(namespace, pod);
-        return ok(call, { name: res.body.metadata?.name });
+        const res = await core.createNamespacedPod(namespace, pod, undefined, dryRun);
+        return okMutation(call, options, res.body, { name: res.body.metadata?.name });
       }
 
       case "createDeployment": {
         const { namespace, name, image } = call.args;
         const replicas = call.args.replicas ?? 1;
         const port = call.args.port;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
-        // if (allowedImages.length && !allowedImages.some(p => image.startsWith(p)))
-          // throw new Error("Image not allowed");
-        // if (replicas > maxReplicas) throw new Error("Replicas exceed max allowed");
         const apps = kc.makeApiClient(k8s.AppsV1Api);
         const deployment: k8s.V1Deployment = {
           apiVersion: "apps/v1",
@@ -314,52 +595,44 @@ export async function executeTool(
             }
           }
         };
-        const res = await apps.createNamespacedDeployment(namespace, deployment);
-        return ok(call, { name: res.body.metadata?.name });
+        const res = await apps.createNamespacedDeployment(namespace, deployment, undefined, dryRun);
+        return okMutation(call, options, res.body, { name: res.body.metadata?.name });
       }
 
       case "updateDeployment": {
         const { namespace, name, patch } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         if (!patch || typeof patch !== "object") throw new Error("Patch must be an object");
 
-        const images = extractImagesFromDeploymentPatch(patch);
-        if (allowedImages.length && images.some(img => !allowedImages.some(p => img.startsWith(p)))) {
-          throw new Error("Image not allowed");
-        }
-
         const apps = kc.makeApiClient(k8s.AppsV1Api);
         const res = await apps.patchNamespacedDeployment(
           name,
           namespace,
           patch,
           undefined,
-          undefined,
+          dryRun,
           undefined,
           undefined,
           undefined,
           { headers: { "Content-Type": "application/strategic-merge-patch+json" } }
         );
-        return ok(call, { name: res.body.metadata?.name });
+        return okMutation(call, options, res.body, { name: res.body.metadata?.name });
       }
 
       case "createIstioObject": {
         const { namespace, kind, manifest } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         if (!manifest || typeof manifest !== "object") throw new Error("Manifest must be an object");
 
-        const { group, version, plural } = getIstioResource(kind);
+        const { group, version, plural } = await resolveIstioResource(kc, kind);
         const custom = kc.makeApiClient(k8s.CustomObjectsApi);
-        const res = await custom.createNamespacedCustomObject(group, version, namespace, plural, manifest);
+        const res = await custom.createNamespacedCustomObject(group, version, namespace, plural, manifest, undefined, dryRun);
         return ok(call, res.body);
       }
 
       case "updateIstioObject": {
         const { namespace, kind, name, patch } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         if (!patch || typeof patch !== "object") throw new Error("Patch must be an object");
 
-        const { group, version, plural } = getIstioResource(kind);
+        const { group, version, plural } = await resolveIstioResource(kc, kind);
         const custom = kc.makeApiClient(k8s.CustomObjectsApi);
         const res = await custom.patchNamespacedCustomObject(
           group,
@@ -368,7 +641,7 @@ export async function executeTool(
           plural,
           name,
           patch,
-          undefined,
+          dryRun,
           undefined,
           undefined,
           { headers: { "Content-Type": "application/merge-patch+json" } }
@@ -378,7 +651,6 @@ export async function executeTool(
 
       case "createService": {
         const { namespace, name, selector, port, targetPort, type } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
 
         const core = kc.makeApiClient(k8s.CoreV1Api);
         const service: k8s.V1Service = {
@@ -396,13 +668,12 @@ export async function executeTool(
             ]
           }
         };
-        const res = await core.createNamespacedService(namespace, service);
-        return ok(call, { name: res.body.metadata?.name });
+        const res = await core.createNamespacedService(namespace, service, undefined, dryRun);
+        return okMutation(call, options, res.body, { name: res.body.metadata?.name });
       }
 
       case "createConfigMap": {
         const { namespace, name, data, binaryData } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
 
         const core = kc.makeApiClient(k8s.CoreV1Api);
         const cm: k8s.V1ConfigMap = {
@@ -412,13 +683,12 @@ export async function executeTool(
           data,
           binaryData
         };
-        const res = await core.createNamespacedConfigMap(namespace, cm);
-        return ok(call, { name: res.body.metadata?.name });
+        const res = await core.createNamespacedConfigMap(namespace, cm, undefined, dryRun);
+        return okMutation(call, options, res.body, { name: res.body.metadata?.name });
       }
 
       case "updateConfigMap": {
         const { namespace, name, data, binaryData } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         if (!data && !binaryData) throw new Error("No ConfigMap data to update");
 
         const core = kc.makeApiClient(k8s.CoreV1Api);
@@ -426,13 +696,12 @@ export async function executeTool(
         const cm = current.body;
         cm.data = { ...(cm.data ?? {}), ...(data ?? {}) };
         cm.binaryData = { ...(cm.binaryData ?? {}), ...(binaryData ?? {}) };
-        const updated = await core.replaceNamespacedConfigMap(name, namespace, cm);
-        return ok(call, { name: updated.body.metadata?.name });
+        const updated = await core.replaceNamespacedConfigMap(name, namespace, cm, undefined, dryRun);
+        return okMutation(call, options, updated.body, { name: updated.body.metadata?.name });
       }
 
       case "updateService": {
         const { namespace, name, selector, port, targetPort, type } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
         if (!selector && !port && !targetPort && !type) throw new Error("No service fields to update");
 
         const core = kc.makeApiClient(k8s.CoreV1Api);
@@ -454,15 +723,12 @@ export async function executeTool(
           ];
         }
 
-        const updated = await core.replaceNamespacedService(name, namespace, service);
-        return ok(call, { name: updated.body.metadata?.name });
+        const updated = await core.replaceNamespacedService(name, namespace, service, undefined, dryRun);
+        return okMutation(call, options, updated.body, { name: updated.body.metadata?.name });
       }
 
       case "updateDeploymentImage": {
         const { namespace, name, image } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
-        // if (allowedImages.length && !allowedImages.some(p => image.startsWith(p)))
-        //   throw new Error("Image not allowed");
 
         const apps = kc.makeApiClient(k8s.AppsV1Api);
         const res = await apps.readNamespacedDeployment(name, namespace);
@@ -482,23 +748,113 @@ export async function executeTool(
         }
         deployment.spec.template.spec.containers = containers;
 
-        const updated = await apps.replaceNamespacedDeployment(name, namespace, deployment);
-        return ok(call, { name: updated.body.metadata?.name });
+        const updated = await apps.replaceNamespacedDeployment(name, namespace, deployment, undefined, dryRun);
+        return okMutation(call, options, updated.body, { name: updated.body.metadata?.name });
       }
 
       case "deleteDeployment": {
         const { namespace, name } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
 
         const apps = kc.makeApiClient(k8s.AppsV1Api);
-        const res = await apps.deleteNamespacedDeployment(name, namespace);
+        const res = await apps.deleteNamespacedDeployment(name, namespace, undefined, dryRun);
         return ok(call, { status: res.body?.status, details: res.body?.details });
       }
 
+      case "deleteResource": {
+        const { kind, apiVersion, namespace, name, labelSelector, propagationPolicy, gracePeriodSeconds } = call.args;
+        if (!name === !labelSelector) {
+          throw new Error("Exactly one of name or labelSelector is required");
+        }
+        if (propagationPolicy !== undefined && !PROPAGATION_POLICIES.includes(propagationPolicy)) {
+          throw new Error(`propagationPolicy must be one of ${PROPAGATION_POLICIES.join(", ")}`);
+        }
+        if (gracePeriodSeconds !== undefined && !(Number.isInteger(gracePeriodSeconds) && gracePeriodSeconds >= 0)) {
+          throw new Error("gracePeriodSeconds must be a non-negative integer");
+        }
+
+        const resource = await resolveResource(kc, kind, { apiVersion });
+        if (resource.group === "" && resource.kind === "Namespace") {
+          throw new Error("Deleting a namespace removes everything in it and is not supported from chat");
+        }
+        // The policy only sees the namespace argument, which the planner may pass even for a cluster-scoped kind
+        if (!resource.namespaced && !policy.allowClusterScoped) {
+          return policyDenial(call, {
+            allowed: false,
+            violations: [{
+              rule: "namespace",
+              message: `${resource.kind} is cluster-scoped; enable kubeCopilot.allowClusterScoped to delete cluster-scoped objects`
+            }]
+          });
+        }
+        if (!resource.verbs.includes("delete")) {
+          throw new Error(`${resource.kind} does not support delete`);
+        }
+        if (resource.namespaced && !namespace) {
+          throw new Error(`${resource.kind} is namespaced; a namespace is required`);
+        }
+        const objectNamespace = resource.namespaced ? namespace : undefined;
+        const objects = k8s.KubernetesObjectApi.makeApiClient(kc);
+        const spec = (objectName: string) => ({
+          apiVersion: resource.apiVersion,
+          kind: resource.kind,
+          metadata: { name: objectName, namespace: objectNamespace }
+        });
+
+        let targets: k8s.KubernetesObject[];
+        if (name) {
+          targets = [(await objects.read(spec(name))).body];
+        } else {
+          targets = await listSelectorTargets(objects, resource, objectNamespace, labelSelector);
+          // `names` is pinned by pinToolTargets when the plan is queued; a confirmed selector
+          // delete only runs if the selector still matches exactly what the dry run showed
+          const pinned: string[] | undefined = call.args.names;
+          if (!pinned && !dryRun) {
+            throw new Error("A label-selector delete must be previewed before it runs; ask again to re-plan");
+          }
+          const current = targets.map(t => t.metadata?.name ?? "");
+          if (pinned && (pinned.length !== current.length || !current.every(n => pinned.includes(n)))) {
+            const changes = [
+              ...current.filter(n => !pinned.includes(n)).map(n => `+${n}`),
+              ...pinned.filter(n => !current.includes(n)).map(n => `-${n}`)
+            ];
+            throw new Error(
+              `The ${resource.kind} objects matching "${labelSelector}" changed since the plan was reviewed ` +
+              `(${changes.join(", ")}); ask again to re-plan`
+            );
+          }
+        }
+
+        const cascade = propagationPolicy ?? "Background";
+        const dependents = objectNamespace ? await findDependents(kc, objectNamespace, resource.kind, targets) : [];
+        const deleted: string[] = [];
+        for (const target of targets) {
+          const targetName = target.metadata?.name ?? "";
+          try {
+            await objects.delete(spec(targetName), undefined, dryRun, gracePeriodSeconds, undefined, cascade);
+          } catch (e: any) {
+            if (!deleted.length) {
+              throw e;
+            }
+            throw new Error(`Deleted ${deleted.join(", ")} before ${targetName} failed: ${errorMessage(e)}`);
+          }
+          deleted.push(targetName);
+        }
+        return ok(call, {
+          kind: resource.kind,
+          apiVersion: resource.apiVersion,
+          namespace: objectNamespace,
+          deleted,
+          propagationPolicy: cascade,
+          gracePeriodSeconds,
+          dependents: dependents.slice(0, MAX_DEPENDENTS),
+          dependentsTruncated: dependents.length > MAX_DEPENDENTS || undefined,
+          dryRun: options.dryRun || undefined
+        });
+      }
+
       case "scaleDeployment": {
         const { namespace, name, replicas } = call.args;
-        // if (!allowedNamespaces.has(namespace)) throw new Error("Namespace not allowed");
-        // if (replicas > maxReplicas) throw new Error("Replicas exceed max allowed");
+        await refuseIfHpaManaged(kc, namespace, "Deployment", name);
 
         const apps = kc.makeApiClient(k8s.AppsV1Api);
         const current = await apps.readNamespacedDeployment(name, namespace);
@@ -509,9 +865,9 @@ export async function executeTool(
         }
         deployment.spec.replicas = replicas;
 
-        const updated = await apps.replaceNamespacedDeployment(name, namespace, deployment);
+        const updated = await apps.replaceNamespacedDeployment(name, namespace, deployment, undefined, dryRun);
         console.log("res: " + JSON.stringify(updated))
-        return ok(call, { name: updated.body.metadata?.name, replicas: updated.body.spec?.replicas });
+        return okMutation(call, options, updated.body, { name: updated.body.metadata?.name, replicas: updated.body.spec?.replicas });
       }
 
       case "getDeploymentStatus": {
@@ -530,87 +886,211 @@ export async function executeTool(
         const { namespace, name } = call.args;
         const apps = kc.makeApiClient(k8s.AppsV1Api);
         const res = await apps.readNamespacedDeployment(name, namespace);
-        const deployment = res.body;
-        const podLabels = getPodTemplateLabels(deployment);
-        const spec = deployment?.spec ?? {} as k8s.V1DeploymentSpec;
-        const tplSpec = spec?.template?.spec ?? {} as k8s.V1PodSpec;
-        const volumes = tplSpec?.volumes ?? [];
-        const containers = tplSpec?.containers ?? [];
-        const imagePullSecrets = tplSpec?.imagePullSecrets ?? [];
-
-        // ConfigMaps
-        let configMaps: (string | undefined | null)[] = [];
-        // From volumes
-        configMaps = configMaps.concat(
-          volumes
-            .map((v: any) => v?.configMap?.name)
-        );
-        // From envFrom in containers
-        containers.forEach((c: any) => {
-          if (Array.isArray(c.envFrom)) {
-            configMaps = configMaps.concat(
-              c.envFrom.map((ef: any) => ef?.configMapRef?.name)
-            );
-          }
-        });
-        // From env[].valueFrom.configMapKeyRef
-        containers.forEach((c: any) => {
-          if (Array.isArray(c.env)) {
-            configMaps = configMaps.concat(
-              c.env.map((e: any) => e?.valueFrom?.configMapKeyRef?.name)
-            );
-          }
-        });
+        return ok(call, { namespace, deployment: name, ...extractWorkloadRefs(res.body) });
+      }
 
-        // Secrets
-        let secrets: (string | undefined | null)[] = [];
-        // From volumes
-        secrets = secrets.concat(
-          volumes.map((v: any) => v?.secret?.secretName)
-        );
-        // From envFrom in containers
-        containers.forEach((c: any) => {
-          if (Array.isArray(c.envFrom)) {
-            secrets = secrets.concat(
-              c.envFrom.map((ef: any) => ef?.secretRef?.name)
-            );
+      case "validateDeploymentRefs": {
+        const { namespace, name } = call.args;
+        const kind = getWorkloadKind(call.args.kind);
+        const workload = await readWorkload(kc, kind, name, namespace);
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+
+        // Each object is read once; only key names are kept, never values
+        const keysByObject = new Map<string, Set<string> | null>();
+        const loadKeys = async (objectKind: "ConfigMap" | "Secret", objectName: string): Promise<Set<string> | null> => {
+          const id = `${objectKind}/${objectName}`;
+          if (!keysByObject.has(id)) {
+            try {
+              if (objectKind === "ConfigMap") {
+                const cm = (await core.readNamespacedConfigMap(objectName, namespace)).body;
+                keysByObject.set(id, new Set([...Object.keys(cm.data ?? {}), ...Object.keys(cm.binaryData ?? {})]));
+              } else {
+                const secret = (await core.readNamespacedSecret(objectName, namespace)).body;
+                keysByObject.set(id, new Set(Object.keys(secret.data ?? {})));
+              }
+            } catch (e: any) {
+              if (e?.statusCode !== 404) {
+                throw e;
+              }
+              keysByObject.set(id, null);
+            }
           }
-        });
-        // From env[].valueFrom.secretKeyRef
-        containers.forEach((c: any) => {
-          if (Array.isArray(c.env)) {
-            secrets = secrets.concat(
-              c.env.map((e: any) => e?.valueFrom?.secretKeyRef?.name)
-            );
+          return keysByObject.get(id) ?? null;
+        };
+
+        const references = [];
+        for (const ref of collectWorkloadReferences(workload)) {
+          const keys = await loadKeys(ref.kind, ref.name);
+          const missingKeys = keys ? (ref.keys ?? []).filter(k => !keys.has(k)) : [];
+          const status = !keys ? "missing-object" : missingKeys.length ? "missing-key" : "ok";
+          references.push({ ...ref, status, missingKeys: missingKeys.length ? missingKeys : undefined });
+        }
+
+        const serviceAccountName = workload?.spec?.template?.spec?.serviceAccountName ?? "default";
+        let serviceAccountExists = true;
+        try {
+          await core.readNamespacedServiceAccount(serviceAccountName, namespace);
+        } catch (e: any) {
+          if (e?.statusCode !== 404) {
+            throw e;
           }
-        });
-        // From imagePullSecrets
-        secrets = secrets.concat(
-          (imagePullSecrets ?? []).map((s: any) => s?.name)
-        );
+          serviceAccountExists = false;
+        }
 
-        // serviceAccountName
-        const serviceAccountName = tplSpec?.serviceAccountName;
-        // images
-        const images = containers.map((c: any) => c?.image).filter(Boolean);
+        const problems: Record<string, any>[] = references
+          .filter(r => r.status !== "ok")
+          .map(r => ({
+            ...r,
+            impact: r.optional ? "none (optional reference)" : REFERENCE_IMPACT[r.usage]
+          }));
+        if (!serviceAccountExists) {
+          problems.push({
+            kind: "ServiceAccount",
+            name: serviceAccountName,
+            source: "pod spec",
+            optional: false,
+            status: "missing-object",
+            impact: "the workload controller cannot create pods (FailedCreate events)"
+          });
+        }
 
         return ok(call, {
           namespace,
-          deployment: name,
-          podLabels,
-          serviceAccountName,
-          images: uniqueStrings(images),
-          configMaps: uniqueStrings(configMaps),
-          secrets: uniqueStrings(secrets)
+          kind,
+          name,
+          valid: !problems.some(p => !p.optional),
+          serviceAccount: { name: serviceAccountName, exists: serviceAccountExists },
+          problems,
+          checked: references.length + 1
         });
       }
 
+      case "listNamespacedStatefulSet": {
+        const namespace = call.args.namespace;
+        const labelSelector = call.args.labelSelector;
+        const fieldSelector = call.args.fieldSelector;
+        const limit = call.args.limit ?? 50;
+        const continueToken = call.args.continueToken;
+
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.listNamespacedStatefulSet(
+          namespace,
+          undefined,
+          undefined,
+          continueToken,
+          fieldSelector,
+          labelSelector,
+          limit
+        );
+        return ok(call, res.body, { summarizeList: true, kindHint: "StatefulSet" });
+      }
+
+      case "getStatefulSet": {
+        const { namespace, name } = call.args;
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.readNamespacedStatefulSet(name, namespace);
+        return ok(call, summarizeK8sItem(res.body, "StatefulSet"));
+      }
+
+      case "getStatefulSetStatus": {
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.readNamespacedStatefulSet(call.args.name, call.args.namespace);
+        return ok(call, res.body.status);
+      }
+
+      case "getStatefulSetRefs": {
+        const { namespace, name } = call.args;
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.readNamespacedStatefulSet(name, namespace);
+        return ok(call, { namespace, statefulSet: name, ...extractWorkloadRefs(res.body) });
+      }
+
+      case "scaleStatefulSet": {
+        const { namespace, name, replicas } = call.args;
+        await refuseIfHpaManaged(kc, namespace, "StatefulSet", name);
+
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const current = await apps.readNamespacedStatefulSet(name, namespace);
+        const statefulSet = current.body;
+
+        if (!statefulSet.spec) {
+          statefulSet.spec = {} as k8s.V1StatefulSetSpec;
+        }
+        statefulSet.spec.replicas = replicas;
+
+        const updated = await apps.replaceNamespacedStatefulSet(name, namespace, statefulSet, undefined, dryRun);
+        return okMutation(call, options, updated.body, { name: updated.body.metadata?.name, replicas: updated.body.spec?.replicas });
+      }
+
+      case "updateStatefulSetImage": {
+        const { namespace, name, image } = call.args;
+
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.readNamespacedStatefulSet(name, namespace);
+        const statefulSet = res.body;
+        setFirstContainerImage(statefulSet.spec?.template?.spec, image);
+
+        const updated = await apps.replaceNamespacedStatefulSet(name, namespace, statefulSet, undefined, dryRun);
+        return okMutation(call, options, updated.body, { name: updated.body.metadata?.name });
+      }
+
+      case "listNamespacedDaemonSet": {
+        const namespace = call.args.namespace;
+        const labelSelector = call.args.labelSelector;
+        const fieldSelector = call.args.fieldSelector;
+        const limit = call.args.limit ?? 50;
+        const continueToken = call.args.continueToken;
+
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.listNamespacedDaemonSet(
+          namespace,
+          undefined,
+          undefined,
+          continueToken,
+          fieldSelector,
+          labelSelector,
+          limit
+        );
+        return ok(call, res.body, { summarizeList: true, kindHint: "DaemonSet" });
+      }
+
+      case "getDaemonSet": {
+        const { namespace, name } = call.args;
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.readNamespacedDaemonSet(name, namespace);
+        return ok(call, summarizeK8sItem(res.body, "DaemonSet"));
+      }
+
+      case "getDaemonSetStatus": {
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.readNamespacedDaemonSet(call.args.name, call.args.namespace);
+        return ok(call, res.body.status);
+      }
+
+      case "getDaemonSetRefs": {
+        const { namespace, name } = call.args;
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.readNamespacedDaemonSet(name, namespace);
+        return ok(call, { namespace, daemonSet: name, ...extractWorkloadRefs(res.body) });
+      }
+
+      case "updateDaemonSetImage": {
+        const { namespace, name, image } = call.args;
+
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const res = await apps.readNamespacedDaemonSet(name, namespace);
+        const daemonSet = res.body;
+        setFirstContainerImage(daemonSet.spec?.template?.spec, image);
+
+        const updated = await apps.replaceNamespacedDaemonSet(name, namespace, daemonSet, undefined, dryRun);
+        return okMutation(call, options, updated.body, { name: updated.body.metadata?.name });
+      }
+
       case "findServicesForDeployment": {
         const { namespace, deploymentName } = call.args;
-        const apps = kc.makeApiClient(k8s.AppsV1Api);
         const core = kc.makeApiClient(k8s.CoreV1Api);
-        const depRes = await apps.readNamespacedDeployment(deploymentName, namespace);
-        const podLabels = getPodTemplateLabels(depRes.body);
+        const workload = await readWorkload(kc, getWorkloadKind(call.args.kind), deploymentName, namespace);
+        const podLabels = getPodTemplateLabels(workload);
         const res = await core.listNamespacedService(
           namespace,
           undefined,
@@ -645,7 +1125,7 @@ export async function executeTool(
       case "getVirtualServicesForService": {
         const { namespace, serviceName } = call.args;
         const candidates = buildServiceHostCandidates(serviceName, namespace);
-        const { group, version, plural } = getIstioResource("virtualservice");
+        const { group, version, plural } = await resolveIstioResource(kc, "virtualservice");
         const custom = kc.makeApiClient(k8s.CustomObjectsApi);
         const res = await custom.listNamespacedCustomObject(
           group,
@@ -672,7 +1152,7 @@ export async function executeTool(
       case "getDestinationRulesForService": {
         const { namespace, serviceName } = call.args;
         const candidates = buildServiceHostCandidates(serviceName, namespace);
-        const { group, version, plural } = getIstioResource("destinationrule");
+        const { group, version, plural } = await resolveIstioResource(kc, "destinationrule");
         const custom = kc.makeApiClient(k8s.CustomObjectsApi);
         const res = await custom.listNamespacedCustomObject(
           group,
@@ -695,21 +1175,592 @@ export async function executeTool(
           destinationRules: matches
         });
       }
-    }
-// --------- Helper functions for new tools ---------
 
-function uniqueStrings(arr: (string | undefined | null)[]): string[] {
-  return Array.from(new Set(arr.filter(Boolean) as string[]));
-}
+      case "getPodLogs": {
+        const { namespace, podName, deploymentName, container, sinceSeconds } = call.args;
+        const previous = call.args.previous === true;
+        const requestedLines = Number(call.args.tailLines ?? 100);
+        if (!Number.isFinite(requestedLines)) {
+          throw new Error("tailLines must be a number");
+        }
+        const tailLines = Math.min(Math.max(Math.floor(requestedLines), 1), MAX_LOG_LINES);
+        if (!podName && !deploymentName) {
+          throw new Error("Either podName or deploymentName is required");
+        }
 
-function getPodTemplateLabels(deployment: any): Record<string, string> {
-  return (
-    deployment?.spec?.template?.metadata?.labels && typeof deployment.spec.template.metadata.labels === "object"
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        let pods: k8s.V1Pod[];
+        let labelSelector: string | undefined;
+        if (podName) {
+          pods = [(await core.readNamespacedPod(podName, namespace)).body];
+        } else {
+          const apps = kc.makeApiClient(k8s.AppsV1Api);
+          const depRes = await apps.readNamespacedDeployment(deploymentName, namespace);
+          labelSelector = toLabelSelector(depRes.body.spec?.selector);
+          if (!labelSelector) {
+            throw new Error(`Deployment ${deploymentName} has no selector`);
+          }
+          const res = await core.listNamespacedPod(namespace, undefined, undefined, undefined, undefined, labelSelector, 50);
+          pods = res.body.items;
+        }
+
+        const logs = [];
+        for (const pod of pods.slice(0, MAX_LOG_PODS)) {
+          const name = pod.metadata?.name ?? "";
+          const containers = (pod.spec?.containers ?? []).map(c => c.name);
+          const target = container ?? pod.metadata?.annotations?.["kubectl.kubernetes.io/default-container"] ?? containers[0];
+          try {
+            const res = await core.readNamespacedPodLog(
+              name,
+              namespace,
+              target,
+              undefined,
+              undefined,
+              undefined,
+              undefined,
+              previous,
+              sinceSeconds,
+              tailLines
+            );
+            logs.push({ pod: name, container: target, containers, previous, ...capLogLines(String(res.body ?? "")) });
+          } catch (e: any) {
+            // One pod without (previous) logs should not hide the others
+            logs.push({ pod: name, container: target, containers, previous, error: errorMessage(e) });
+          }
+        }
+
+        return ok(call, {
+          namespace,
+          deployment: deploymentName,
+          labelSelector,
+          podsMatched: pods.length,
+          podsShown: logs.length,
+          logs
+        });
+      }
+
+      case "getRolloutHistory": {
+        const { namespace, name } = call.args;
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const deployment = (await apps.readNamespacedDeployment(name, namespace)).body;
+        const revisions = await listDeploymentRevisions(kc, deployment);
+        return ok(call, {
+          namespace,
+          deployment: name,
+          currentRevision: deployment.metadata?.annotations?.[REVISION_ANNOTATION],
+          revisions: revisions.map(rs => ({
+            revision: Number(rs.metadata?.annotations?.[REVISION_ANNOTATION]),
+            replicaSet: rs.metadata?.name,
+            images: (rs.spec?.template?.spec?.containers ?? []).map(c => c.image),
+            changeCause: rs.metadata?.annotations?.[CHANGE_CAUSE_ANNOTATION],
+            createdAt: rs.metadata?.creationTimestamp,
+            replicas: rs.status?.replicas ?? 0
+          }))
+        });
+      }
+
+      case "rollbackDeployment": {
+        const { namespace, name } = call.args;
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const deployment = (await apps.readNamespacedDeployment(name, namespace)).body;
+        const revisions = await listDeploymentRevisions(kc, deployment);
+        const current = deployment.metadata?.annotations?.[REVISION_ANNOTATION];
+        // Like `kubectl rollout undo`, the default target is the newest revision other than the current one
+        const target = call.args.revision !== undefined
+          ? revisions.find(rs => rs.metadata?.annotations?.[REVISION_ANNOTATION] === String(call.args.revision))
+          : revisions.find(rs => rs.metadata?.annotations?.[REVISION_ANNOTATION] !== current);
+        if (!target?.spec?.template) {
+          throw new Error(
+            call.args.revision !== undefined
+              ? `Revision ${call.args.revision} not found for deployment ${name}`
+              : `Deployment ${name} has no previous revision to roll back to`
+          );
+        }
+
+        const template: k8s.V1PodTemplateSpec = JSON.parse(JSON.stringify(target.spec.template));
+        // The controller adds pod-template-hash to ReplicaSet templates; it must not end up in the deployment
+        delete template.metadata?.labels?.["pod-template-hash"];
+
+        // The restored images were not in the call args, so check them against the policy now
+        const decision = evaluatePolicy(policy, { tool: call.tool, args: { ...call.args, patch: { spec: { template } } } }, kc.getCurrentContext());
+        if (!decision.allowed) {
+          return policyDenial(call, decision);
+        }
+
+        if (!deployment.spec) {
+          deployment.spec = {} as k8s.V1DeploymentSpec;
+        }
+        deployment.spec.template = template;
+        const updated = await apps.replaceNamespacedDeployment(name, namespace, deployment, undefined, dryRun);
+        return okMutation(call, options, updated.body, {
+          name: updated.body.metadata?.name,
+          rolledBackTo: Number(target.metadata?.annotations?.[REVISION_ANNOTATION]),
+          images: (template.spec?.containers ?? []).map(c => c.image)
+        });
+      }
+
+      case "listNamespacedJob": {
+        const namespace = call.args.namespace;
+        const labelSelector = call.args.labelSelector;
+        const fieldSelector = call.args.fieldSelector;
+        const limit = call.args.limit ?? 50;
+        const continueToken = call.args.continueToken;
+
+        const batch = kc.makeApiClient(k8s.BatchV1Api);
+        const res = await batch.listNamespacedJob(
+          namespace,
+          undefined,
+          undefined,
+          continueToken,
+          fieldSelector,
+          labelSelector,
+          limit
+        );
+        return ok(call, res.body, { summarizeList: true, kindHint: "Job" });
+      }
+
+      case "listNamespacedCronJob": {
+        const namespace = call.args.namespace;
+        const labelSelector = call.args.labelSelector;
+        const fieldSelector = call.args.fieldSelector;
+        const limit = call.args.limit ?? 50;
+        const continueToken = call.args.continueToken;
+
+        const batch = kc.makeApiClient(k8s.BatchV1Api);
+        const res = await batch.listNamespacedCronJob(
+          namespace,
+          undefined,
+          undefined,
+          continueToken,
+          fieldSelector,
+          labelSelector,
+          limit
+        );
+        // Success/failure counts come from the Jobs each CronJob still owns (bounded by its history limits)
+        const jobs = (await batch.listNamespacedJob(namespace, undefined, undefined, undefined, undefined, undefined, 500)).body.items;
+        const summary = ok(call, res.body, { summarizeList: true, kindHint: "CronJob" });
+        summary.result.items = summary.result.items.map((item: any, i: number) => {
+          const owned = jobs.filter(j => j.metadata?.ownerReferences?.some(o => o.uid === res.body.items[i].metadata?.uid));
+          return {
+            ...item,
+            succeededJobs: owned.filter(j => getJobOutcome(j) === "Complete").length,
+            failedJobs: owned.filter(j => getJobOutcome(j) === "Failed").length,
+            runningJobs: owned.filter(j => getJobOutcome(j) === undefined).length
+          };
+        });
+        return summary;
+      }
+
+      case "createJobFromCronJob": {
+        // Equivalent of `kubectl create job --from=cronjob/<name>`
+        const { namespace, cronJobName } = call.args;
+        const batch = kc.makeApiClient(k8s.BatchV1Api);
+        const cronJob = (await batch.readNamespacedCronJob(cronJobName, namespace)).body;
+        const jobTemplate = cronJob.spec?.jobTemplate;
+        if (!jobTemplate?.spec) {
+          throw new Error(`CronJob ${cronJobName} has no job template`);
+        }
+
+        const decision = evaluatePolicy(
+          policy,
+          { tool: call.tool, args: { ...call.args, patch: { spec: { template: jobTemplate.spec.template } } } },
+          kc.getCurrentContext()
+        );
+        if (!decision.allowed) {
+          return policyDenial(call, decision);
+        }
+
+        const name = call.args.name ?? `${String(cronJobName).slice(0, 45)}-manual-${Math.floor(Date.now() / 1000)}`;
+        const job: k8s.V1Job = {
+          apiVersion: "batch/v1",
+          kind: "Job",
+          metadata: {
+            name,
+            labels: jobTemplate.metadata?.labels,
+            annotations: { ...(jobTemplate.metadata?.annotations ?? {}), "cronjob.kubernetes.io/instantiate": "manual" },
+            ownerReferences: [{
+              apiVersion: "batch/v1",
+              kind: "CronJob",
+              name: cronJobName,
+              uid: cronJob.metadata?.uid ?? "",
+              controller: true
+            }]
+          },
+          spec: jobTemplate.spec
+        };
+        const res = await batch.createNamespacedJob(namespace, job, undefined, dryRun);
+        return okMutation(call, options, res.body, { name: res.body.metadata?.name, cronJob: cronJobName });
+      }
+
+      case "suspendCronJob":
+      case "resumeCronJob": {
+        const { namespace, name } = call.args;
+        const suspend = call.tool === "suspendCronJob";
+        const batch = kc.makeApiClient(k8s.BatchV1Api);
+        const res = await batch.patchNamespacedCronJob(
+          name,
+          namespace,
+          { spec: { suspend } },
+          undefined,
+          dryRun,
+          undefined,
+          undefined,
+          undefined,
+          { headers: { "Content-Type": "application/merge-patch+json" } }
+        );
+        return okMutation(call, options, res.body, { name: res.body.metadata?.name, suspend: res.body.spec?.suspend });
+      }
+
+      case "deleteFinishedJobs": {
+        const { namespace, labelSelector } = call.args;
+        const names: string[] | undefined = call.args.names;
+        const batch = kc.makeApiClient(k8s.BatchV1Api);
+        const res = await batch.listNamespacedJob(namespace, undefined, undefined, undefined, undefined, labelSelector, 500);
+        const finished = res.body.items.filter(j =>
+          getJobOutcome(j) !== undefined && (!names?.length || names.includes(j.metadata?.name ?? ""))
+        );
+
+        const deleted: { name?: string; outcome?: string }[] = [];
+        for (const job of finished) {
+          // Background propagation also removes the Job's pods, like kubectl delete job
+          await batch.deleteNamespacedJob(job.metadata?.name ?? "", namespace, undefined, dryRun, undefined, undefined, "Background");
+          deleted.push({ name: job.metadata?.name, outcome: getJobOutcome(job) });
+        }
+        const skipped = (names ?? []).filter(n => !finished.some(j => j.metadata?.name === n));
+        return ok(call, {
+          kind: "Job",
+          namespace,
+          deleted,
+          skipped: skipped.length ? skipped : undefined,
+          dryRun: options.dryRun || undefined
+        });
+      }
+
+      case "listNamespacedHorizontalPodAutoscaler": {
+        const namespace = call.args.namespace;
+        const labelSelector = call.args.labelSelector;
+        const limit = call.args.limit ?? 50;
+        const continueToken = call.args.continueToken;
+
+        const autoscaling = kc.makeApiClient(k8s.AutoscalingV2Api);
+        const res = await autoscaling.listNamespacedHorizontalPodAutoscaler(
+          namespace,
+          undefined,
+          undefined,
+          continueToken,
+          undefined,
+          labelSelector,
+          limit
+        );
+        return ok(call, res.body, { summarizeList: true, kindHint: "HorizontalPodAutoscaler" });
+      }
+
+      case "getHorizontalPodAutoscaler": {
+        const { namespace, name } = call.args;
+        const autoscaling = kc.makeApiClient(k8s.AutoscalingV2Api);
+        const res = await autoscaling.readNamespacedHorizontalPodAutoscaler(name, namespace);
+        return ok(call, summarizeK8sItem(res.body, "HorizontalPodAutoscaler"));
+      }
+
+      case "updateHpaReplicaBounds": {
+        const { namespace, name, minReplicas, maxReplicas } = call.args;
+        if (minReplicas === undefined && maxReplicas === undefined) {
+          throw new Error("minReplicas or maxReplicas is required");
+        }
+
+        const autoscaling = kc.makeApiClient(k8s.AutoscalingV2Api);
+        const current = (await autoscaling.readNamespacedHorizontalPodAutoscaler(name, namespace)).body;
+        const min = minReplicas ?? current.spec?.minReplicas ?? 1;
+        const max = maxReplicas ?? current.spec?.maxReplicas;
+        if (min > max) {
+          throw new Error(`minReplicas (${min}) cannot exceed maxReplicas (${max})`);
+        }
+        // A bound left out of the call keeps its live value, which the ceiling must cover as well
+        const decision = evaluatePolicy(policy, { tool: call.tool, args: { ...call.args, minReplicas: min, maxReplicas: max } }, kc.getCurrentContext());
+        if (!decision.allowed) {
+          return policyDenial(call, decision);
+        }
+
+        const res = await autoscaling.patchNamespacedHorizontalPodAutoscaler(
+          name,
+          namespace,
+          { spec: { minReplicas: min, maxReplicas: max } },
+          undefined,
+          dryRun,
+          undefined,
+          undefined,
+          undefined,
+          { headers: { "Content-Type": "application/merge-patch+json" } }
+        );
+        return okMutation(call, options, res.body, {
+          name: res.body.metadata?.name,
+          minReplicas: res.body.spec?.minReplicas,
+          maxReplicas: res.body.spec?.maxReplicas
+        });
+      }
+
+      case "restartWorkload": {
+        // Same mechanism as `kubectl rollout restart`: a new pod-template annotation triggers a rolling replacement
+        const { namespace, name } = call.args;
+        const kind = getWorkloadKind(call.args.kind);
+        const patch = {
+          spec: { template: { metadata: { annotations: { "kubectl.kubernetes.io/restartedAt": new Date().toISOString() } } } }
+        };
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        const patchOptions = { headers: { "Content-Type": "application/strategic-merge-patch+json" } };
+        const res = kind === "StatefulSet"
+          ? await apps.patchNamespacedStatefulSet(name, namespace, patch, undefined, dryRun, undefined, undefined, undefined, patchOptions)
+          : kind === "DaemonSet"
+            ? await apps.patchNamespacedDaemonSet(name, namespace, patch, undefined, dryRun, undefined, undefined, undefined, patchOptions)
+            : await apps.patchNamespacedDeployment(name, namespace, patch, undefined, dryRun, undefined, undefined, undefined, patchOptions);
+        return okMutation(call, options, res.body, {
+          kind,
+          name: res.body.metadata?.name,
+          restartedAt: patch.spec.template.metadata.annotations["kubectl.kubernetes.io/restartedAt"]
+        });
+      }
+
+      case "getIngressesForService": {
+        const { namespace, serviceName } = call.args;
+        const networking = kc.makeApiClient(k8s.NetworkingV1Api);
+        const res = await networking.listNamespacedIngress(
+          namespace,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          200
+        );
+        const matches = extractIngressMatches(res.body.items ?? [], serviceName);
+        return ok(call, {
+          namespace,
+          serviceName,
+          ingresses: matches
+        });
+      }
+
+      case "getHttpRoutesForService": {
+        const { namespace, serviceName } = call.args;
+        const custom = kc.makeApiClient(k8s.CustomObjectsApi);
+        const { version, items } = await listGatewayApiObjects(kc, namespace, "httproutes");
+        const matches = extractHttpRouteMatches(items, serviceName, namespace);
+
+        // TLS terminates on the parent Gateway's listeners, so resolve those for the secrets
+        for (const route of matches) {
+          route.listeners = [];
+          for (const parent of route.parentRefs) {
+            if (parent.kind !== "Gateway") {
+              continue;
+            }
+            try {
+              const gw: any = (await custom.getNamespacedCustomObject(GATEWAY_API_GROUP, version, parent.namespace, "gateways", parent.name)).body;
+              const listeners = (gw?.spec?.listeners ?? []).filter((l: any) => !parent.sectionName || l?.name === parent.sectionName);
+              route.listeners.push(...listeners.map((l: any) => ({
+                gateway: `${parent.namespace}/${parent.name}`,
+                listener: l?.name,
+                hostname: l?.hostname,
+                port: l?.port,
+                protocol: l?.protocol,
+                tlsSecrets: (l?.tls?.certificateRefs ?? []).map((r: any) => r?.name)
+              })));
+            } catch (e: any) {
+              route.listeners.push({ gateway: `${parent.namespace}/${parent.name}`, error: errorMessage(e) });
+            }
+          }
+        }
+
+        return ok(call, {
+          namespace,
+          serviceName,
+          apiVersion: `${GATEWAY_API_GROUP}/${version}`,
+          httpRoutes: matches
+        });
+      }
+
+      case "applyManifest": {
+        // One document from the editor (see manifest.ts); not offered to the planner
+        const { namespace, manifest } = call.args;
+        if (!manifest || typeof manifest !== "object") {
+          throw new Error("Manifest must be an object");
+        }
+        // Namespace documents are covered by the namespace rules; other cluster-scoped kinds are opt-in
+        const resource = await resolveResource(kc, manifest.kind, { apiVersion: manifest.apiVersion });
+        if (!resource.namespaced && resource.kind !== "Namespace" && !policy.allowClusterScoped) {
+          return policyDenial(call, {
+            allowed: false,
+            violations: [{
+              rule: "namespace",
+              message: `${resource.kind} is cluster-scoped; enable kubeCopilot.allowClusterScoped to apply cluster-scoped objects`
+            }]
+          });
+        }
+        const objects = k8s.KubernetesObjectApi.makeApiClient(kc);
+        // Conflicts with other field managers are not forced; they surface as an error in the dry run
+        const res = await objects.patch(
+          { ...manifest, metadata: { ...manifest.metadata, namespace } },
+          undefined,
+          dryRun,
+          FIELD_MANAGER,
+          undefined,
+          // Lower-case, to replace the client's default strategic-merge content-type header
+          { headers: { "content-type": k8s.PatchUtils.PATCH_FORMAT_APPLY_YAML } }
+        );
+        return okMutation(call, options, res.body, {
+          kind: res.body.kind,
+          namespace: res.body.metadata?.namespace,
+          name: res.body.metadata?.name,
+          resourceVersion: res.body.metadata?.resourceVersion
+        });
+      }
+
+      case "restoreObject": {
+        // Internal tool behind the undo journal; not offered to the planner
+        const { apiVersion, kind, namespace, name, snapshot, expectedResourceVersion } = call.args;
+        // The snapshot is what gets written, so it must be the object the policy checked through the args
+        const snapshotMatches = !snapshot || (
+          snapshot.apiVersion === apiVersion &&
+          snapshot.kind === kind &&
+          (snapshot.metadata?.namespace || undefined) === (namespace || undefined) &&
+          snapshot.metadata?.name === name
+        );
+        if (!snapshotMatches) {
+          throw new Error(`The snapshot does not describe ${kind} ${name}; refusing to restore`);
+        }
+        const objects = k8s.KubernetesObjectApi.makeApiClient(kc);
+        const live = await readToolTarget(kc, call);
+        const liveVersion = live?.metadata?.resourceVersion ?? null;
+        if (liveVersion !== (expectedResourceVersion ?? null)) {
+          throw new Error(
+            `${kind} ${name} has changed since it was modified (expected resourceVersion ${expectedResourceVersion ?? "none"}, ` +
+            `found ${liveVersion ?? "none"}); refusing to restore over newer changes`
+          );
+        }
+
+        if (!snapshot) {
+          // The change created the object, so undoing it deletes it
+          const res = await objects.delete(
+            { apiVersion, kind, metadata: { name, namespace } },
+            undefined,
+            dryRun,
+            undefined,
+            undefined,
+            undefined,
+            { preconditions: { resourceVersion: expectedResourceVersion } }
+          );
+          return okMutation(call, options, res.body, { kind, name, restored: "deleted" });
+        }
+
+        const body = restorableSnapshot(snapshot);
+        if (!live) {
+          const res = await objects.create(body, undefined, dryRun);
+          return okMutation(call, options, res.body, { kind, name, restored: "recreated" });
+        }
+        // Carrying the expected resourceVersion makes the replace fail if the object moves after the check above
+        body.metadata.resourceVersion = expectedResourceVersion;
+        const res = await objects.replace(body, undefined, dryRun);
+        return okMutation(call, options, res.body, { kind, name, restored: "replaced" });
+      }
+    }
+// --------- Helper functions for new tools ---------
+
+function getPodTemplateLabels(deployment: any): Record<string, string> {
+  return (
+    deployment?.spec?.template?.metadata?.labels && typeof deployment.spec.template.metadata.labels === "object"
       ? deployment.spec.template.metadata.labels
       : {}
   );
 }
 
+type WorkloadReference = {
+  kind: "ConfigMap" | "Secret";
+  name: string;
+  keys?: string[]; // Keys the reference needs; undefined when it consumes the whole object
+  optional: boolean;
+  usage: "env" | "envFrom" | "volume" | "imagePullSecret";
+  source: string; // Where in the pod template, e.g. "container app env DB_PASSWORD"
+};
+
+// What a missing required reference does to the pods
+const REFERENCE_IMPACT: Record<WorkloadReference["usage"], string> = {
+  env: "containers fail with CreateContainerConfigError",
+  envFrom: "containers fail with CreateContainerConfigError",
+  volume: "pods stay in ContainerCreating (FailedMount events)",
+  imagePullSecret: "private image pulls fail with ErrImagePull / ImagePullBackOff"
+};
+
+// Every ConfigMap/Secret reference in a pod template, with the keys and optional flag needed to verify it
+function collectWorkloadReferences(workload: any): WorkloadReference[] {
+  const podSpec = workload?.spec?.template?.spec ?? {};
+  const refs: WorkloadReference[] = [];
+  const containers = [
+    ...(podSpec.initContainers ?? []).map((c: any) => ({ c, label: `initContainer ${c?.name}` })),
+    ...(podSpec.containers ?? []).map((c: any) => ({ c, label: `container ${c?.name}` }))
+  ];
+
+  for (const { c, label } of containers) {
+    for (const e of c?.env ?? []) {
+      const cmRef = e?.valueFrom?.configMapKeyRef;
+      const secretRef = e?.valueFrom?.secretKeyRef;
+      if (cmRef?.name) {
+        refs.push({ kind: "ConfigMap", name: cmRef.name, keys: [cmRef.key], optional: Boolean(cmRef.optional), usage: "env", source: `${label} env ${e.name}` });
+      }
+      if (secretRef?.name) {
+        refs.push({ kind: "Secret", name: secretRef.name, keys: [secretRef.key], optional: Boolean(secretRef.optional), usage: "env", source: `${label} env ${e.name}` });
+      }
+    }
+    for (const ef of c?.envFrom ?? []) {
+      if (ef?.configMapRef?.name) {
+        refs.push({ kind: "ConfigMap", name: ef.configMapRef.name, optional: Boolean(ef.configMapRef.optional), usage: "envFrom", source: `${label} envFrom` });
+      }
+      if (ef?.secretRef?.name) {
+        refs.push({ kind: "Secret", name: ef.secretRef.name, optional: Boolean(ef.secretRef.optional), usage: "envFrom", source: `${label} envFrom` });
+      }
+    }
+  }
+
+  for (const v of podSpec.volumes ?? []) {
+    const sources = [
+      { kind: "ConfigMap" as const, ref: v?.configMap, name: v?.configMap?.name },
+      { kind: "Secret" as const, ref: v?.secret, name: v?.secret?.secretName },
+      ...(v?.projected?.sources ?? []).flatMap((p: any) => [
+        { kind: "ConfigMap" as const, ref: p?.configMap, name: p?.configMap?.name },
+        { kind: "Secret" as const, ref: p?.secret, name: p?.secret?.name }
+      ])
+    ];
+    for (const { kind, ref, name } of sources) {
+      if (!name) {
+        continue;
+      }
+      const items = (ref?.items ?? []).map((i: any) => i?.key).filter(Boolean);
+      refs.push({ kind, name, keys: items.length ? items : undefined, optional: Boolean(ref?.optional), usage: "volume", source: `volume ${v.name}` });
+    }
+  }
+
+  for (const s of podSpec.imagePullSecrets ?? []) {
+    if (s?.name) {
+      refs.push({ kind: "Secret", name: s.name, optional: false, usage: "imagePullSecret", source: "imagePullSecrets" });
+    }
+  }
+  return refs;
+}
+
+// Objects referenced by a workload's pod template; shared by the Deployment, StatefulSet and DaemonSet refs tools.
+// The ConfigMap and Secret names are the ones validateDeploymentRefs checks, so both views cover the same places.
+function extractWorkloadRefs(workload: any) {
+  const tplSpec = workload?.spec?.template?.spec ?? {} as k8s.V1PodSpec;
+  const containers = [...(tplSpec?.initContainers ?? []), ...(tplSpec?.containers ?? [])];
+  const refs = collectWorkloadReferences(workload);
+
+  return {
+    podLabels: getPodTemplateLabels(workload),
+    serviceAccountName: tplSpec?.serviceAccountName,
+    images: uniqueStrings(containers.map((c: any) => c?.image)),
+    configMaps: uniqueStrings(refs.filter(r => r.kind === "ConfigMap").map(r => r.name)),
+    secrets: uniqueStrings(refs.filter(r => r.kind === "Secret").map(r => r.name))
+  };
+}
+
 function selectorIsSubset(selector: any, labels: Record<string, string>): boolean {
   if (!selector || typeof selector !== "object" || !labels) return false;
   for (const k of Object.keys(selector)) {
@@ -718,6 +1769,17 @@ function selectorIsSubset(selector: any, labels: Record<string, string>): boolea
   return true;
 }
 
+function capLogLines(text: string): { lines: string[]; truncated: boolean } {
+  const all = text.split("\n");
+  if (all[all.length - 1] === "") {
+    all.pop();
+  }
+  const kept = all.slice(-MAX_LOG_LINES);
+  const tooLong = kept.some(l => l.length > MAX_LOG_LINE_LENGTH);
+  const lines = kept.map(l => l.length > MAX_LOG_LINE_LENGTH ? `${l.slice(0, MAX_LOG_LINE_LENGTH)}…` : l);
+  return { lines, truncated: all.length > kept.length || tooLong };
+}
+
 function buildServiceHostCandidates(serviceName: string, namespace: string): string[] {
   return [
     serviceName,
@@ -778,10 +1840,279 @@ function extractIstioDestinationRuleMatches(items: any[], candidates: string[]):
 }
   } catch (e: any) {
     console.log("error: " + JSON.stringify(e))
-    return { tool: call.tool, args: call.args, ok: false, result: e.message };
+    return { tool: call.tool, args: call.args, ok: false, result: errorMessage(e) };
+  }
+}
+
+function uniqueStrings(arr: (string | undefined | null)[]): string[] {
+  return Array.from(new Set(arr.filter(Boolean) as string[]));
+}
+
+export function extractIngressMatches(items: any[], serviceName: string): any[] {
+  return (items ?? []).map((item: any) => {
+    const spec = item?.spec ?? {};
+    const routes: any[] = [];
+    const defaultBackend = spec?.defaultBackend?.service;
+    if (defaultBackend?.name === serviceName) {
+      routes.push({ host: "*", path: "(default backend)", port: defaultBackend.port?.number ?? defaultBackend.port?.name });
+    }
+    // match via any rules[*].http.paths[*].backend.service.name
+    for (const rule of spec.rules ?? []) {
+      for (const p of rule?.http?.paths ?? []) {
+        const backend = p?.backend?.service;
+        if (backend?.name === serviceName) {
+          routes.push({
+            host: rule?.host ?? "*",
+            path: p?.path ?? "/",
+            pathType: p?.pathType,
+            port: backend.port?.number ?? backend.port?.name
+          });
+        }
+      }
+    }
+    if (routes.length === 0) {
+      return null;
+    }
+    return {
+      name: item?.metadata?.name,
+      ingressClassName: spec?.ingressClassName,
+      hosts: uniqueStrings((spec.rules ?? []).map((r: any) => r?.host)),
+      tls: (spec.tls ?? []).map((t: any) => ({ hosts: t?.hosts ?? [], secretName: t?.secretName })),
+      routes
+    };
+  }).filter(Boolean);
+}
+
+export function extractHttpRouteMatches(items: any[], serviceName: string, namespace: string): any[] {
+  return (items ?? []).map((item: any) => {
+    const spec = item?.spec ?? {};
+    const routeNamespace = item?.metadata?.namespace ?? namespace;
+    const routes: any[] = [];
+    // match via any rules[*].backendRefs[*] pointing at the Service (kind defaults to Service)
+    for (const rule of spec.rules ?? []) {
+      const backends = (rule?.backendRefs ?? []).filter((b: any) =>
+        (b?.kind ?? "Service") === "Service" && (b?.group ?? "") === "" &&
+        b?.name === serviceName && (b?.namespace ?? routeNamespace) === namespace
+      );
+      if (!backends.length) {
+        continue;
+      }
+      const matches = rule?.matches?.length ? rule.matches : [{ path: { type: "PathPrefix", value: "/" } }];
+      for (const m of matches) {
+        for (const b of backends) {
+          routes.push({
+            path: m?.path?.value ?? "/",
+            pathType: m?.path?.type,
+            method: m?.method,
+            headers: m?.headers?.map((h: any) => `${h?.name}=${h?.value}`),
+            port: b?.port,
+            weight: b?.weight
+          });
+        }
+      }
+    }
+    if (routes.length === 0) {
+      return null;
+    }
+    return {
+      name: item?.metadata?.name,
+      hostnames: spec?.hostnames ?? [],
+      parentRefs: (spec?.parentRefs ?? []).map((r: any) => ({
+        kind: r?.kind ?? "Gateway",
+        name: r?.name,
+        namespace: r?.namespace ?? routeNamespace,
+        sectionName: r?.sectionName
+      })),
+      routes,
+      listeners: [] as any[]
+    };
+  }).filter(Boolean);
+}
+
+/**
+ * Reads the live object a tool call targets, or null when it does not exist yet
+ * (creates) or the tool does not target a single object.
+ */
+export async function readToolTarget(kc: k8s.KubeConfig, call: ToolCall): Promise<any | null> {
+  const { namespace, name } = call.args;
+  try {
+    switch (call.tool) {
+      case "createNamespace": {
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        return (await core.readNamespace(name)).body;
+      }
+      case "createPod": {
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        return (await core.readNamespacedPod(name, namespace)).body;
+      }
+      case "createDeployment":
+      case "updateDeployment":
+      case "updateDeploymentImage":
+      case "deleteDeployment":
+      case "scaleDeployment":
+      case "rollbackDeployment": {
+        const apps = kc.makeApiClient(k8s.AppsV1Api);
+        return (await apps.readNamespacedDeployment(name, namespace)).body;
+      }
+      case "createConfigMap":
+      case "updateConfigMap": {
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        return (await core.readNamespacedConfigMap(name, namespace)).body;
+      }
+      case "createService":
+      case "updateService": {
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        return (await core.readNamespacedService(name, namespace)).body;
+      }
+      case "createIstioObject":
+      case "updateIstioObject": {
+        const objectName = call.tool === "createIstioObject" ? call.args.manifest?.metadata?.name : name;
+        if (!objectName) {
+          return null;
+        }
+        const { group, version, plural } = await resolveIstioResource(kc, call.args.kind);
+        const custom = kc.makeApiClient(k8s.CustomObjectsApi);
+        return (await custom.getNamespacedCustomObject(group, version, namespace, plural, objectName)).body;
+      }
+      case "createJobFromCronJob": {
+        if (!name) {
+          return null;
+        }
+        const batch = kc.makeApiClient(k8s.BatchV1Api);
+        return (await batch.readNamespacedJob(name, namespace)).body;
+      }
+      case "suspendCronJob":
+      case "resumeCronJob": {
+        const batch = kc.makeApiClient(k8s.BatchV1Api);
+        return (await batch.readNamespacedCronJob(name, namespace)).body;
+      }
+      case "cordonNode":
+      case "uncordonNode": {
+        const core = kc.makeApiClient(k8s.CoreV1Api);
+        return (await core.readNode(name)).body;
+      }
+      case "updateHpaReplicaBounds": {
+        const autoscaling = kc.makeApiClient(k8s.AutoscalingV2Api);
+        return (await autoscaling.readNamespacedHorizontalPodAutoscaler(name, namespace)).body;
+      }
+      case "restartWorkload":
+        return await readWorkload(kc, getWorkloadKind(call.args.kind), name, namespace);
+      case "scaleStatefulSet":
+      case "updateStatefulSetImage":
+        return await readWorkload(kc, "StatefulSet", name, namespace);
+      case "updateDaemonSetImage":
+        return await readWorkload(kc, "DaemonSet", name, namespace);
+      case "deleteResource": {
+        if (!name) {
+          return null;
+        }
+        const resource = await resolveResource(kc, call.args.kind, { apiVersion: call.args.apiVersion });
+        const objects = k8s.KubernetesObjectApi.makeApiClient(kc);
+        return (await objects.read({
+          apiVersion: resource.apiVersion,
+          kind: resource.kind,
+          metadata: { name, namespace: resource.namespaced ? namespace : undefined }
+        })).body;
+      }
+      case "applyManifest":
+      case "restoreObject": {
+        const objects = k8s.KubernetesObjectApi.makeApiClient(kc);
+        const { apiVersion, kind } = call.args;
+        return (await objects.read({ apiVersion, kind, metadata: { name, namespace } })).body;
+      }
+      default:
+        return null;
+    }
+  } catch (e: any) {
+    if (e?.statusCode === 404) {
+      return null;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Pins a label-selector deleteResource to the names the selector matches now, so the confirmed
+ * call deletes exactly the objects its dry run listed. Other calls are returned unchanged, as is
+ * a selector delete whose targets cannot be listed (its dry run reports the same error).
+ */
+export async function pinToolTargets(kc: k8s.KubeConfig, call: ToolCall): Promise<ToolCall> {
+  const { kind, apiVersion, namespace, name, labelSelector } = call.args;
+  if (call.tool !== "deleteResource" || name || !labelSelector) {
+    return call;
+  }
+  try {
+    const resource = await resolveResource(kc, kind, { apiVersion });
+    const objects = k8s.KubernetesObjectApi.makeApiClient(kc);
+    const targets = await listSelectorTargets(objects, resource, resource.namespaced ? namespace : undefined, labelSelector);
+    return { ...call, args: { ...call.args, names: targets.map(t => t.metadata?.name ?? "") } };
+  } catch (e: any) {
+    console.warn(`Failed to pin targets of ${call.tool}:`, errorMessage(e));
+    return call;
+  }
+}
+
+async function listSelectorTargets(
+  objects: k8s.KubernetesObjectApi,
+  resource: ResolvedResource,
+  namespace: string | undefined,
+  labelSelector: string
+): Promise<k8s.KubernetesObject[]> {
+  const res = await objects.list(
+    resource.apiVersion,
+    resource.kind,
+    namespace,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    labelSelector,
+    MAX_BULK_DELETE + 1
+  );
+  const targets = res.body.items;
+  if (!targets.length) {
+    throw new Error(`No ${resource.kind} objects match "${labelSelector}"`);
+  }
+  if (targets.length > MAX_BULK_DELETE) {
+    throw new Error(`More than ${MAX_BULK_DELETE} ${resource.kind} objects match "${labelSelector}"; narrow the selector`);
+  }
+  return targets;
+}
+
+/**
+ * Best-effort variant of readToolTarget for bookkeeping (audit, undo) that must never block
+ * execution. Returns undefined when the read itself failed.
+ */
+export async function captureToolTarget(kc: k8s.KubeConfig, call: ToolCall): Promise<any | null | undefined> {
+  try {
+    const target = await readToolTarget(kc, call);
+    // Plain JSON so snapshots survive being stored and replayed later
+    return target ? JSON.parse(JSON.stringify(target)) : null;
+  } catch (e: any) {
+    console.warn(`Failed to capture target of ${call.tool}:`, errorMessage(e));
+    return undefined;
   }
 }
 
+export function toLabelSelector(selector: k8s.V1LabelSelector | undefined): string | undefined {
+  const parts = Object.entries(selector?.matchLabels ?? {}).map(([k, v]) => `${k}=${v}`);
+  for (const expr of selector?.matchExpressions ?? []) {
+    const values = (expr.values ?? []).join(",");
+    switch (expr.operator) {
+      case "In": parts.push(`${expr.key} in (${values})`); break;
+      case "NotIn": parts.push(`${expr.key} notin (${values})`); break;
+      case "Exists": parts.push(expr.key); break;
+      case "DoesNotExist": parts.push(`!${expr.key}`); break;
+    }
+  }
+  return parts.length ? parts.join(",") : undefined;
+}
+
+// API errors carry the server's reason (RBAC, admission webhooks, validation) in the Status body
+export function errorMessage(e: any): string {
+  return e?.body?.message ?? e?.message ?? String(e);
+}
+
 function ok(call: ToolCall, result: any, options?: OkOptions): ToolResult {
   if (options?.summarizeList && result && Array.isArray(result.items)) {
     const continueToken = result.metadata?.continue ?? result.metadata?._continue;
@@ -797,10 +2128,9 @@ function ok(call: ToolCall, result: any, options?: OkOptions): ToolResult {
   return { tool: call.tool, args: call.args, ok: true, result };
 }
 
-function extractImagesFromDeploymentPatch(patch: any): string[] {
-  const containers = patch?.spec?.template?.spec?.containers;
-  if (!Array.isArray(containers)) return [];
-  return containers.map((c: any) => c?.image).filter((img: any) => typeof img === "string");
+// Dry runs hand back the whole would-be object so the preview can diff it against the live one
+function okMutation(call: ToolCall, options: ExecuteOptions, body: any, summary: any): ToolResult {
+  return ok(call, options.dryRun ? body : summary);
 }
 
 function summarizeK8sList(items: any[], kindHint?: string): any[] {
@@ -844,6 +2174,128 @@ function summarizeK8sItem(item: any, kindHint?: string): Record<string, any> {
     };
   }
 
+  if (kindHint === "StatefulSet" || kind === "StatefulSet") {
+    const spec = item?.spec ?? {};
+    const status = item?.status ?? {};
+    return {
+      kind: "StatefulSet",
+      name,
+      namespace,
+      replicas: spec.replicas,
+      readyReplicas: status.readyReplicas,
+      updatedReplicas: status.updatedReplicas,
+      currentRevision: status.currentRevision,
+      updateRevision: status.updateRevision,
+      serviceName: spec.serviceName,
+      updateStrategy: spec?.updateStrategy?.type,
+      volumeClaimTemplates: spec.volumeClaimTemplates?.map((t: any) => ({
+        name: t?.metadata?.name,
+        storageClassName: t?.spec?.storageClassName,
+        accessModes: t?.spec?.accessModes,
+        storage: t?.spec?.resources?.requests?.storage
+      })),
+      labels
+    };
+  }
+
+  if (kindHint === "DaemonSet" || kind === "DaemonSet") {
+    const spec = item?.spec ?? {};
+    const status = item?.status ?? {};
+    return {
+      kind: "DaemonSet",
+      name,
+      namespace,
+      desiredNumberScheduled: status.desiredNumberScheduled,
+      currentNumberScheduled: status.currentNumberScheduled,
+      numberReady: status.numberReady,
+      updatedNumberScheduled: status.updatedNumberScheduled,
+      numberAvailable: status.numberAvailable,
+      numberMisscheduled: status.numberMisscheduled,
+      updateStrategy: spec?.updateStrategy?.type,
+      nodeSelector: spec?.template?.spec?.nodeSelector,
+      labels
+    };
+  }
+
+  if (kindHint === "Job" || kind === "Job") {
+    const spec = item?.spec ?? {};
+    const status = item?.status ?? {};
+    return {
+      kind: "Job",
+      name,
+      namespace,
+      outcome: getJobOutcome(item) ?? (status.active ? "Running" : "Pending"),
+      completions: spec.completions,
+      active: status.active ?? 0,
+      succeeded: status.succeeded ?? 0,
+      failed: status.failed ?? 0,
+      startTime: status.startTime,
+      completionTime: status.completionTime,
+      cronJob: meta?.ownerReferences?.find((o: any) => o?.kind === "CronJob")?.name,
+      labels
+    };
+  }
+
+  if (kindHint === "CronJob" || kind === "CronJob") {
+    const spec = item?.spec ?? {};
+    const status = item?.status ?? {};
+    return {
+      kind: "CronJob",
+      name,
+      namespace,
+      schedule: spec.schedule,
+      timeZone: spec.timeZone,
+      suspend: spec.suspend ?? false,
+      lastScheduleTime: status.lastScheduleTime,
+      lastSuccessfulTime: status.lastSuccessfulTime,
+      activeJobs: (status.active ?? []).map((a: any) => a?.name),
+      labels
+    };
+  }
+
+  if (kindHint === "HorizontalPodAutoscaler" || kind === "HorizontalPodAutoscaler") {
+    const spec = item?.spec ?? {};
+    const status = item?.status ?? {};
+    return {
+      kind: "HorizontalPodAutoscaler",
+      name,
+      namespace,
+      target: spec.scaleTargetRef ? `${spec.scaleTargetRef.kind}/${spec.scaleTargetRef.name}` : undefined,
+      minReplicas: spec.minReplicas ?? 1,
+      maxReplicas: spec.maxReplicas,
+      currentReplicas: status.currentReplicas,
+      desiredReplicas: status.desiredReplicas,
+      lastScaleTime: status.lastScaleTime,
+      metrics: (spec.metrics ?? []).map((m: any) => summarizeHpaMetric(m, status.currentMetrics ?? [])),
+      conditions: status.conditions?.map((c: any) => ({ type: c?.type, status: c?.status, reason: c?.reason, message: c?.message })),
+      labels
+    };
+  }
+
+  if (kindHint === "Node" || kind === "Node") {
+    const status = item?.status ?? {};
+    const conditions = status.conditions ?? [];
+    const ready = conditions.find((c: any) => c?.type === "Ready");
+    return {
+      kind: "Node",
+      name,
+      roles: Object.keys(labels ?? {}).filter(l => l.startsWith("node-role.kubernetes.io/")).map(l => l.split("/")[1]),
+      ready: ready?.status === "True",
+      unschedulable: item?.spec?.unschedulable ?? false,
+      // Ready should be True and every other condition (MemoryPressure, DiskPressure, ...) False
+      problems: conditions
+        .filter((c: any) => (c?.type === "Ready" ? c?.status !== "True" : c?.status === "True"))
+        .map((c: any) => ({ type: c?.type, status: c?.status, reason: c?.reason, message: c?.message })),
+      taints: item?.spec?.taints?.map((t: any) => `${t?.key}${t?.value ? `=${t.value}` : ""}:${t?.effect}`),
+      kubeletVersion: status.nodeInfo?.kubeletVersion,
+      containerRuntime: status.nodeInfo?.containerRuntimeVersion,
+      internalIP: status.addresses?.find((a: any) => a?.type === "InternalIP")?.address,
+      zone: labels?.["topology.kubernetes.io/zone"],
+      instanceType: labels?.["node.kubernetes.io/instance-type"],
+      allocatable: { cpu: status.allocatable?.cpu, memory: status.allocatable?.memory, pods: status.allocatable?.pods }
+    };
+  }
+
   if (kindHint === "Service" || kind === "Service") {
     const spec = item?.spec ?? {};
     return {
@@ -858,6 +2310,10 @@ function summarizeK8sItem(item: any, kindHint?: string): Record<string, any> {
     };
   }
 
+  if (kindHint === "Secret" || kind === "Secret") {
+    return summarizeSecret(item);
+  }
+
   if (kindHint === "ConfigMap" || kind === "ConfigMap") {
     const data = item?.data ?? {};
     const binaryData = item?.binaryData ?? {};
@@ -871,24 +2327,566 @@ function summarizeK8sItem(item: any, kindHint?: string): Record<string, any> {
     };
   }
 
+  // Generic fallback for Istio and any other discovered kind
   const spec = item?.spec ?? {};
-  const istioSummary: Record<string, any> = {
+  const status = item?.status ?? {};
+  const summary: Record<string, any> = {
     kind: kindHint ?? kind,
     name,
     namespace,
     labels
   };
-  if (Array.isArray(spec.hosts)) istioSummary.hosts = spec.hosts;
-  if (Array.isArray(spec.gateways)) istioSummary.gateways = spec.gateways;
-  if (spec.selector) istioSummary.selector = spec.selector;
-  if (Array.isArray(spec.ports)) istioSummary.ports = spec.ports;
-  if (Array.isArray(spec.servers)) istioSummary.servers = spec.servers;
-  console.log("istioSummary: " + JSON.stringify(istioSummary))
-  return istioSummary;
+  if (Array.isArray(spec.hosts)) {
+    summary.hosts = spec.hosts;
+  }
+  if (Array.isArray(spec.gateways)) {
+    summary.gateways = spec.gateways;
+  }
+  if (spec.selector) {
+    summary.selector = spec.selector;
+  }
+  if (Array.isArray(spec.ports)) {
+    summary.ports = spec.ports;
+  }
+  if (Array.isArray(spec.servers)) {
+    summary.servers = spec.servers;
+  }
+  if (typeof status.phase === "string") {
+    summary.phase = status.phase;
+  }
+  if (Array.isArray(status.conditions)) {
+    summary.conditions = status.conditions.map((c: any) => ({
+      type: c?.type,
+      status: c?.status,
+      reason: c?.reason,
+      message: c?.message,
+      lastTransitionTime: c?.lastTransitionTime
+    }));
+  }
+  return summary;
+}
+
+export type WorkloadKind = "Deployment" | "StatefulSet" | "DaemonSet";
+
+// Accepts the kind case-insensitively (and plurals/short names); defaults to Deployment
+export function getWorkloadKind(kind: string | undefined): WorkloadKind {
+  switch (String(kind ?? "deployment").toLowerCase()) {
+    case "deployment":
+    case "deployments":
+    case "deploy":
+      return "Deployment";
+    case "statefulset":
+    case "statefulsets":
+    case "sts":
+      return "StatefulSet";
+    case "daemonset":
+    case "daemonsets":
+    case "ds":
+      return "DaemonSet";
+    default:
+      throw new Error(`Unsupported workload kind: ${kind}`);
+  }
+}
+
+async function readWorkload(kc: k8s.KubeConfig, kind: WorkloadKind, name: string, namespace: string): Promise<any> {
+  const apps = kc.makeApiClient(k8s.AppsV1Api);
+  if (kind === "StatefulSet") {
+    return (await apps.readNamespacedStatefulSet(name, namespace)).body;
+  }
+  if (kind === "DaemonSet") {
+    return (await apps.readNamespacedDaemonSet(name, namespace)).body;
+  }
+  return (await apps.readNamespacedDeployment(name, namespace)).body;
+}
+
+// Image-update tools change the first container only, like updateDeploymentImage
+function setFirstContainerImage(podSpec: k8s.V1PodSpec | undefined, image: string): void {
+  const containers = podSpec?.containers ?? [];
+  if (!containers.length) {
+    throw new Error("No containers found to update");
+  }
+  containers[0].image = image;
+}
+
+/**
+ * An HPA owns the replica count of its target and would revert a manual scale within minutes,
+ * so scaling such a workload is refused with a pointer to the HPA bounds instead.
+ * If HPAs cannot be listed (e.g. RBAC), the scale goes ahead.
+ */
+async function refuseIfHpaManaged(kc: k8s.KubeConfig, namespace: string, kind: WorkloadKind, name: string): Promise<void> {
+  let hpas: k8s.V2HorizontalPodAutoscaler[];
+  try {
+    const autoscaling = kc.makeApiClient(k8s.AutoscalingV2Api);
+    hpas = (await autoscaling.listNamespacedHorizontalPodAutoscaler(namespace)).body.items;
+  } catch (e: any) {
+    console.warn(`Failed to check HPAs for ${kind} ${name}:`, errorMessage(e));
+    return;
+  }
+  const hpa = hpas.find(h => h.spec?.scaleTargetRef?.kind === kind && h.spec?.scaleTargetRef?.name === name);
+  if (hpa) {
+    throw new Error(
+      `${kind} ${name} is managed by HorizontalPodAutoscaler ${hpa.metadata?.name} ` +
+      `(min ${hpa.spec?.minReplicas ?? 1}, max ${hpa.spec?.maxReplicas}); a manual scale would be reverted. ` +
+      `Adjust the HPA bounds with updateHpaReplicaBounds instead`
+    );
+  }
+}
+
+// "Complete" or "Failed" once the Job has finished, undefined while it is still running
+function getJobOutcome(job: k8s.V1Job): "Complete" | "Failed" | undefined {
+  const finished = job.status?.conditions?.find(c => (c.type === "Complete" || c.type === "Failed") && c.status === "True");
+  return finished?.type as "Complete" | "Failed" | undefined;
+}
+
+// ReplicaSets owned by the deployment, newest revision first
+async function listDeploymentRevisions(kc: k8s.KubeConfig, deployment: k8s.V1Deployment): Promise<k8s.V1ReplicaSet[]> {
+  const labelSelector = toLabelSelector(deployment.spec?.selector);
+  if (!labelSelector) {
+    return [];
+  }
+  const apps = kc.makeApiClient(k8s.AppsV1Api);
+  const res = await apps.listNamespacedReplicaSet(
+    deployment.metadata?.namespace ?? "",
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    labelSelector
+  );
+  return res.body.items
+    .filter(rs => rs.metadata?.ownerReferences?.some(o => o.uid === deployment.metadata?.uid))
+    .filter(rs => rs.metadata?.annotations?.[REVISION_ANNOTATION])
+    .sort((a, b) => Number(b.metadata?.annotations?.[REVISION_ANNOTATION]) - Number(a.metadata?.annotations?.[REVISION_ANNOTATION]));
+}
+
+/**
+ * Metadata-only view of a Secret. Values are never decoded or returned: byte lengths are computed
+ * from the base64 length, and annotations are dropped because last-applied-configuration can
+ * embed the data. The one exception is a TLS secret's tls.crt, which is parsed in memory to read
+ * the certificate dates; the certificate is public material and tls.key is never touched.
+ */
+export function summarizeSecret(item: any): Record<string, any> {
+  const meta = item?.metadata ?? {};
+  const data: Record<string, string> = item?.data ?? {};
+  const summary: Record<string, any> = {
+    kind: "Secret",
+    name: meta.name,
+    namespace: meta.namespace,
+    type: item?.type,
+    keys: Object.entries(data).map(([key, value]) => ({ name: key, bytes: base64ByteLength(value) })),
+    immutable: item?.immutable,
+    createdAt: meta.creationTimestamp,
+    lastModified: getLastModified(meta),
+    labels: meta.labels
+  };
+  if (item?.type === "kubernetes.io/tls" && data["tls.crt"]) {
+    try {
+      const cert = new X509Certificate(Buffer.from(data["tls.crt"], "base64"));
+      const notAfter = new Date(cert.validTo);
+      summary.certificate = {
+        subject: cert.subject,
+        issuer: cert.issuer,
+        subjectAltName: cert.subjectAltName,
+        notBefore: new Date(cert.validFrom).toISOString(),
+        notAfter: notAfter.toISOString(),
+        expiresInDays: Math.floor((notAfter.getTime() - Date.now()) / 86_400_000)
+      };
+    } catch (e: any) {
+      summary.certificate = { error: `tls.crt is not a valid certificate: ${e.message}` };
+    }
+  }
+  return summary;
+}
+
+export function base64ByteLength(value: string): number {
+  const padding = value.endsWith("==") ? 2 : value.endsWith("=") ? 1 : 0;
+  return Math.floor((value.length * 3) / 4) - padding;
+}
+
+// Newest managedFields entry; the API keeps no other modification timestamp
+function getLastModified(meta: any): string | undefined {
+  const times = (meta?.managedFields ?? []).map((f: any) => f?.time).filter(Boolean).map((t: any) => new Date(t).getTime());
+  return times.length ? new Date(Math.max(...times)).toISOString() : meta?.creationTimestamp;
+}
+
+type ResourceAmounts = { cpuMillis: number; memoryBytes: number; pods: number };
+
+/**
+ * Sums the CPU/memory requests of non-terminated pods per node, the way the scheduler counts them:
+ * the larger of the containers' total and the biggest init container.
+ */
+async function sumRequestsByNode(kc: k8s.KubeConfig, nodeName?: string): Promise<Map<string, ResourceAmounts>> {
+  const core = kc.makeApiClient(k8s.CoreV1Api);
+  const fieldSelector = ["status.phase!=Succeeded", "status.phase!=Failed", nodeName ? `spec.nodeName=${nodeName}` : undefined]
+    .filter(Boolean)
+    .join(",");
+  const res = await core.listPodForAllNamespaces(undefined, undefined, fieldSelector, undefined, 5000);
+  const byNode = new Map<string, ResourceAmounts>();
+  for (const pod of res.body.items) {
+    const node = pod.spec?.nodeName;
+    if (!node) {
+      continue;
+    }
+    const total = byNode.get(node) ?? { cpuMillis: 0, memoryBytes: 0, pods: 0 };
+    const requests = getPodRequests(pod);
+    total.cpuMillis += requests.cpuMillis;
+    total.memoryBytes += requests.memoryBytes;
+    total.pods += 1;
+    byNode.set(node, total);
+  }
+  return byNode;
+}
+
+function getPodRequests(pod: k8s.V1Pod): { cpuMillis: number; memoryBytes: number } {
+  const sum = (containers: k8s.V1Container[] | undefined, max = false) => (containers ?? []).reduce(
+    (acc, c) => {
+      const cpu = parseCpuMillis(c.resources?.requests?.cpu);
+      const memory = parseBytes(c.resources?.requests?.memory);
+      return max
+        ? { cpuMillis: Math.max(acc.cpuMillis, cpu), memoryBytes: Math.max(acc.memoryBytes, memory) }
+        : { cpuMillis: acc.cpuMillis + cpu, memoryBytes: acc.memoryBytes + memory };
+    },
+    { cpuMillis: 0, memoryBytes: 0 }
+  );
+  const containers = sum(pod.spec?.containers);
+  const init = sum(pod.spec?.initContainers, true);
+  return {
+    cpuMillis: Math.max(containers.cpuMillis, init.cpuMillis),
+    memoryBytes: Math.max(containers.memoryBytes, init.memoryBytes)
+  };
+}
+
+function withRequested(node: Record<string, any>, requested: ResourceAmounts | undefined): Record<string, any> {
+  const used = requested ?? { cpuMillis: 0, memoryBytes: 0, pods: 0 };
+  const allocatableCpu = parseCpuMillis(node.allocatable?.cpu);
+  const allocatableMemory = parseBytes(node.allocatable?.memory);
+  return {
+    ...node,
+    requested: {
+      cpu: formatCpu(used.cpuMillis),
+      cpuPercent: percentOf(used.cpuMillis, allocatableCpu),
+      memory: formatBytes(used.memoryBytes),
+      memoryPercent: percentOf(used.memoryBytes, allocatableMemory),
+      pods: used.pods
+    }
+  };
+}
+
+type MetricsList = { available: true; items: any[] } | { available: false; reason: string };
+
+/**
+ * Reads metrics.k8s.io the same way listIstioObject reads Istio CRDs. A missing or unhealthy
+ * metrics-server (404 / 503 on the aggregated API) is reported as unavailable rather than an error,
+ * so the planner does not retry it.
+ */
+async function listMetrics(
+  kc: k8s.KubeConfig,
+  plural: "pods" | "nodes",
+  namespace: string | undefined,
+  labelSelector: string | undefined
+): Promise<MetricsList> {
+  const custom = kc.makeApiClient(k8s.CustomObjectsApi);
+  try {
+    const res = namespace
+      ? await custom.listNamespacedCustomObject("metrics.k8s.io", "v1beta1", namespace, plural, undefined, undefined, undefined, undefined, labelSelector)
+      : await custom.listClusterCustomObject("metrics.k8s.io", "v1beta1", plural, undefined, undefined, undefined, undefined, labelSelector);
+    return { available: true, items: (res.body as any)?.items ?? [] };
+  } catch (e: any) {
+    if (e?.statusCode === 404 || e?.statusCode === 503) {
+      return {
+        available: false,
+        reason: `Resource metrics are unavailable: metrics.k8s.io is not served (metrics-server missing or not ready): ${errorMessage(e)}`
+      };
+    }
+    throw e;
+  }
+}
+
+function usageRow(cpuMillis: number, memoryBytes: number, resources: k8s.V1ResourceRequirements | undefined): Record<string, any> {
+  return {
+    cpu: formatCpu(cpuMillis),
+    cpuRequest: resources?.requests?.cpu,
+    cpuPercentOfRequest: percentOf(cpuMillis, parseCpuMillis(resources?.requests?.cpu)),
+    cpuLimit: resources?.limits?.cpu,
+    cpuPercentOfLimit: percentOf(cpuMillis, parseCpuMillis(resources?.limits?.cpu)),
+    memory: formatBytes(memoryBytes),
+    memoryRequest: resources?.requests?.memory,
+    memoryPercentOfRequest: percentOf(memoryBytes, parseBytes(resources?.requests?.memory)),
+    memoryLimit: resources?.limits?.memory,
+    memoryPercentOfLimit: percentOf(memoryBytes, parseBytes(resources?.limits?.memory))
+  };
+}
+
+// --------- Events ---------
+
+type EventSummary = {
+  type?: string;
+  reason?: string;
+  message?: string;
+  count: number;
+  involvedObject: string; // "Kind/name"
+  firstSeen?: string;
+  lastSeen?: string;
+  source?: string;
+};
+
+/**
+ * Lists events through events.k8s.io/v1 where it is served and readable, and core v1 otherwise.
+ * Both expose the same events under different field names; the summaries are identical.
+ */
+async function listEvents(
+  kc: k8s.KubeConfig,
+  namespace: string,
+  filter: { kind?: string; name?: string; warningsOnly: boolean }
+): Promise<{ api: string; items: EventSummary[] }> {
+  const selector = (objectField: string): string | undefined => [
+    filter.kind && `${objectField}.kind=${filter.kind}`,
+    filter.name && `${objectField}.name=${filter.name}`,
+    filter.warningsOnly && "type=Warning"
+  ].filter(Boolean).join(",") || undefined;
+
+  try {
+    const eventsApi = kc.makeApiClient(k8s.EventsV1Api);
+    const res = await eventsApi.listNamespacedEvent(namespace, undefined, undefined, undefined, selector("regarding"), undefined, MAX_EVENTS_FETCHED);
+    return {
+      api: "events.k8s.io/v1",
+      items: res.body.items.map(e => ({
+        type: e.type,
+        reason: e.reason,
+        message: e.note,
+        count: e.series?.count ?? e.deprecatedCount ?? 1,
+        involvedObject: `${e.regarding?.kind}/${e.regarding?.name}`,
+        firstSeen: toIsoTime(e.deprecatedFirstTimestamp ?? e.eventTime ?? e.metadata?.creationTimestamp),
+        lastSeen: toIsoTime(e.series?.lastObservedTime ?? e.deprecatedLastTimestamp ?? e.eventTime ?? e.metadata?.creationTimestamp),
+        source: e.reportingController ?? e.deprecatedSource?.component
+      }))
+    };
+  } catch (e: any) {
+    if (e?.statusCode !== 404 && e?.statusCode !== 403) {
+      throw e;
+    }
+  }
+
+  const core = kc.makeApiClient(k8s.CoreV1Api);
+  const res = await core.listNamespacedEvent(namespace, undefined, undefined, undefined, selector("involvedObject"), undefined, MAX_EVENTS_FETCHED);
+  return {
+    api: "v1",
+    items: res.body.items.map(e => ({
+      type: e.type,
+      reason: e.reason,
+      message: e.message,
+      count: e.series?.count ?? e.count ?? 1,
+      involvedObject: `${e.involvedObject.kind}/${e.involvedObject.name}`,
+      firstSeen: toIsoTime(e.firstTimestamp ?? e.eventTime ?? e.metadata.creationTimestamp),
+      lastSeen: toIsoTime(e.series?.lastObservedTime ?? e.lastTimestamp ?? e.eventTime ?? e.metadata.creationTimestamp),
+      source: e.reportingComponent || e.source?.component
+    }))
+  };
+}
+
+function toIsoTime(time: Date | string | undefined): string | undefined {
+  return time ? new Date(time).toISOString() : undefined;
+}
+
+// --------- Resource quantities ---------
+
+const BINARY_SUFFIXES: Record<string, number> = { Ki: 2 ** 10, Mi: 2 ** 20, Gi: 2 ** 30, Ti: 2 ** 40, Pi: 2 ** 50, Ei: 2 ** 60 };
+const DECIMAL_SUFFIXES: Record<string, number> = { n: 1e-9, u: 1e-6, m: 1e-3, "": 1, k: 1e3, K: 1e3, M: 1e6, G: 1e9, T: 1e12, P: 1e15, E: 1e18 };
+
+// Parses a Kubernetes resource quantity ("250m", "1.5", "128Mi", "1e3") into base units
+export function parseQuantity(quantity: string | number | undefined): number {
+  if (quantity === undefined || quantity === null) {
+    return 0;
+  }
+  const match = String(quantity).trim().match(/^([+-]?[0-9.]+(?:[eE][+-]?[0-9]+)?)([a-zA-Z]*)$/);
+  if (!match) {
+    return 0;
+  }
+  const [, number, suffix] = match;
+  const multiplier = BINARY_SUFFIXES[suffix] ?? DECIMAL_SUFFIXES[suffix];
+  return multiplier === undefined ? 0 : Number(number) * multiplier;
+}
+
+function parseCpuMillis(quantity: string | number | undefined): number {
+  return Math.round(parseQuantity(quantity) * 1000);
+}
+
+function parseBytes(quantity: string | number | undefined): number {
+  return Math.round(parseQuantity(quantity));
+}
+
+function formatCpu(millis: number): string {
+  return millis % 1000 === 0 ? String(millis / 1000) : `${millis}m`;
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["Ki", "Mi", "Gi", "Ti"];
+  let value = bytes;
+  let unit = "";
+  for (const u of units) {
+    if (value < 1024) {
+      break;
+    }
+    value /= 1024;
+    unit = u;
+  }
+  return `${Math.round(value * 10) / 10}${unit}`;
+}
+
+function percentOf(value: number, total: number): number | undefined {
+  return total > 0 ? Math.round((value / total) * 1000) / 10 : undefined;
+}
+
+// Pairs an HPA metric spec with its current value; the source key is the type in camelCase (Resource -> resource)
+function summarizeHpaMetric(metric: any, currentMetrics: any[]): Record<string, any> {
+  const sourceKey = String(metric?.type ?? "").replace(/^./, c => c.toLowerCase());
+  const source = metric?.[sourceKey] ?? {};
+  const metricName = source.name ?? source.metric?.name;
+  const current = currentMetrics.find(c => {
+    const currentSource = c?.[sourceKey];
+    return c?.type === metric?.type && (currentSource?.name ?? currentSource?.metric?.name) === metricName;
+  })?.[sourceKey]?.current;
+  return { type: metric?.type, name: metricName, container: source.container, target: source.target, current };
+}
+
+// Drops server-assigned fields so a snapshot can be written back with create/replace
+function restorableSnapshot(snapshot: any): any {
+  const { status: _status, ...body } = JSON.parse(JSON.stringify(snapshot));
+  const { uid: _uid, resourceVersion: _rv, creationTimestamp: _ct, generation: _gen, managedFields: _mf, selfLink: _sl, ...metadata } =
+    body.metadata ?? {};
+  return { ...body, metadata };
+}
+
+// --------- Owner references ---------
+
+// Kinds controllers commonly create on an owner's behalf; scanned for ownerReferences before a delete.
+// Secrets are left out so a delete preview never pulls secret data.
+const DEPENDENT_KINDS = [
+  { apiVersion: "apps/v1", kind: "ReplicaSet" },
+  { apiVersion: "v1", kind: "Pod" },
+  { apiVersion: "batch/v1", kind: "Job" },
+  { apiVersion: "v1", kind: "PersistentVolumeClaim" },
+  { apiVersion: "v1", kind: "Service" },
+  { apiVersion: "v1", kind: "ConfigMap" }
+];
+
+/**
+ * Objects in the namespace owned, directly or through a chain such as Deployment → ReplicaSet → Pod,
+ * by the given owners. Best-effort: kinds that cannot be listed are skipped.
+ */
+async function findDependents(
+  kc: k8s.KubeConfig,
+  namespace: string,
+  ownerKind: string,
+  owners: k8s.KubernetesObject[]
+): Promise<{ kind: string; name?: string; owner: string }[]> {
+  const objects = k8s.KubernetesObjectApi.makeApiClient(kc);
+  const candidates: { kind: string; object: k8s.KubernetesObject }[] = [];
+  for (const { apiVersion, kind } of DEPENDENT_KINDS) {
+    try {
+      const res = await objects.list(apiVersion, kind, namespace, undefined, undefined, undefined, undefined, undefined, 500);
+      candidates.push(...res.body.items.filter(o => o.metadata?.ownerReferences?.length).map(object => ({ kind, object })));
+    } catch (e: any) {
+      console.warn(`Failed to list ${kind} for dependents:`, errorMessage(e));
+    }
+  }
+
+  const ownerLabels = new Map<string, string>();
+  for (const owner of owners) {
+    if (owner.metadata?.uid) {
+      ownerLabels.set(owner.metadata.uid, `${ownerKind} ${owner.metadata.name}`);
+    }
+  }
+  const dependents: { kind: string; name?: string; owner: string }[] = [];
+  let found = true;
+  while (found) {
+    found = false;
+    for (const { kind, object } of candidates) {
+      const uid = object.metadata?.uid;
+      if (!uid || ownerLabels.has(uid)) {
+        continue;
+      }
+      const ref = object.metadata?.ownerReferences?.find(r => ownerLabels.has(r.uid));
+      if (!ref) {
+        continue;
+      }
+      ownerLabels.set(uid, `${kind} ${object.metadata?.name}`);
+      dependents.push({ kind, name: object.metadata?.name, owner: ownerLabels.get(ref.uid) ?? "" });
+      found = true;
+    }
+  }
+  return dependents;
+}
+
+// --------- Gateway API Lookup ---------
+const GATEWAY_API_GROUP = "gateway.networking.k8s.io";
+
+// Gateway API graduated to v1 in v1.0; older installs only serve v1beta1
+async function listGatewayApiObjects(kc: k8s.KubeConfig, namespace: string, plural: string): Promise<{ version: string; items: any[] }> {
+  const custom = kc.makeApiClient(k8s.CustomObjectsApi);
+  for (const version of ["v1", "v1beta1"]) {
+    try {
+      const res = await custom.listNamespacedCustomObject(
+        GATEWAY_API_GROUP,
+        version,
+        namespace,
+        plural,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        200
+      );
+      return { version, items: (res.body as any)?.items ?? [] };
+    } catch (e: any) {
+      if (e?.statusCode !== 404 || version === "v1beta1") {
+        throw e;
+      }
+    }
+  }
+  return { version: "v1", items: [] };
+}
+
+function describeResource(resource: ResolvedResource): Record<string, any> {
+  return {
+    kind: resource.kind,
+    apiVersion: resource.apiVersion,
+    plural: resource.plural,
+    namespaced: resource.namespaced,
+    alternatives: resource.alternatives.length ? resource.alternatives : undefined
+  };
 }
 
 // --------- Istio Resource Lookup ---------
-function getIstioResource(kind: string): { group: string; version: string; plural: string } {
+
+/**
+ * Resolves an Istio kind through discovery, preferring *.istio.io groups (so "Gateway" is the
+ * Istio one) and picking up the version the cluster actually serves. Falls back to the static
+ * table when discovery is unavailable.
+ *
+ * Other groups are refused: the Istio tools write through the custom-objects API, which would
+ * bypass the per-kind tools and their policy checks (images, replicas) for built-in kinds.
+ */
+export async function resolveIstioResource(kc: k8s.KubeConfig, kind: string): Promise<{ group: string; version: string; plural: string }> {
+  let resource: ResolvedResource;
+  try {
+    resource = await resolveResource(kc, kind, { preferGroup: group => group.endsWith(".istio.io") });
+  } catch (e: any) {
+    console.warn(`Discovery failed for ${kind}, using the built-in Istio table:`, errorMessage(e));
+    return getIstioResource(kind);
+  }
+  if (!resource.group.endsWith(".istio.io")) {
+    throw new Error(
+      `${resource.kind} (${resource.apiVersion}) is not an Istio kind; use listResource/getResource to read it ` +
+      "and deleteResource or the kind's own tools to change it"
+    );
+  }
+  return { group: resource.group, version: resource.version, plural: resource.plural };
+}
+
+// Offline fallback for resolveIstioResource
+export function getIstioResource(kind: string): { group: string; version: string; plural: string } {
   const normalized = String(kind || "").toLowerCase();
   switch (normalized) {
     case "virtualservice":
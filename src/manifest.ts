@@ -0,0 +1,124 @@
+import * as vscode from "vscode";
+import * as k8s from "@kubernetes/client-node";
+import { resolveResource } from "./discovery";
+import { errorMessage, ToolCall, ToolResult } from "./kubernetes";
+
+/* =========================================================
+ * Types
+ * ========================================================= */
+
+export type ManifestSource = {
+  label: string; // File (and line range for a selection), for the plan summary
+  text: string;
+};
+
+export type AppliedDocument = {
+  result: ToolResult;
+  before: any | null | undefined;
+  after: any | null | undefined;
+};
+
+/* =========================================================
+ * Reading
+ * ========================================================= */
+
+// The selection in the active editor, or the whole document when nothing is selected
+export function readActiveManifest(): ManifestSource | undefined {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return undefined;
+  }
+  const { document, selection } = editor;
+  const file = vscode.workspace.asRelativePath(document.uri);
+  if (selection.isEmpty) {
+    return { label: file, text: document.getText() };
+  }
+  return {
+    label: `${file}:${selection.start.line + 1}-${selection.end.line + 1}`,
+    text: document.getText(selection)
+  };
+}
+
+/**
+ * Parses every YAML document (and the items of `kind: List` documents) into an applyManifest
+ * call. The whole batch is rejected if any document is malformed or of a type the cluster
+ * does not serve, so a file is never half-applied because of a typo in its last document.
+ * Namespaced objects without a namespace get `defaultNamespace`, as with kubectl.
+ */
+export async function buildApplyCalls(kc: k8s.KubeConfig, text: string, defaultNamespace: string): Promise<ToolCall[]> {
+  let documents: any[];
+  try {
+    documents = k8s.loadAllYaml(text);
+  } catch (e: any) {
+    throw new Error(`Not valid YAML: ${e.message}`);
+  }
+
+  const calls: ToolCall[] = [];
+  const problems: string[] = [];
+  for (const [i, document] of documents.entries()) {
+    if (document === null || document === undefined) {
+      continue; // Empty documents between separators
+    }
+    const isList = typeof document?.kind === "string" && document.kind.endsWith("List") && Array.isArray(document.items);
+    const objects: any[] = isList ? document.items : [document];
+    for (const [j, object] of objects.entries()) {
+      const label = isList ? `Document ${i + 1} item ${j + 1}` : `Document ${i + 1}`;
+      if (!object || typeof object !== "object" || Array.isArray(object)) {
+        problems.push(`${label} is not an object`);
+        continue;
+      }
+      if (!object.apiVersion || !object.kind || !object.metadata?.name) {
+        problems.push(`${label} needs apiVersion, kind and metadata.name`);
+        continue;
+      }
+      try {
+        const resource = await resolveResource(kc, object.kind, { apiVersion: object.apiVersion });
+        const namespace = resource.namespaced ? object.metadata.namespace || defaultNamespace : undefined;
+        calls.push({
+          tool: "applyManifest",
+          args: {
+            apiVersion: object.apiVersion,
+            kind: resource.kind,
+            namespace,
+            name: object.metadata.name,
+            manifest: { ...object, metadata: { ...object.metadata, namespace } }
+          }
+        });
+      } catch (e: any) {
+        problems.push(`${label} (${object.kind} ${object.metadata.name}): ${errorMessage(e)}`);
+      }
+    }
+  }
+
+  if (problems.length) {
+    throw new Error(problems.join("; "));
+  }
+  if (!calls.length) {
+    throw new Error("No Kubernetes objects found");
+  }
+  return calls;
+}
+
+/* =========================================================
+ * Rendering
+ * ========================================================= */
+
+// One line per document, in kubectl's created/configured/unchanged terms
+export function renderApplyResults(applied: AppliedDocument[]): string {
+  const lines = applied.map(({ result, before, after }) => {
+    const { kind, namespace, name } = result.args;
+    const target = `\`${kind} ${[namespace, name].filter(Boolean).join("/")}\``;
+    if (!result.ok) {
+      return `- ❌ ${target} failed: \`${result.denied ? "denied by policy" : String(result.result)}\``;
+    }
+    if (before === null) {
+      return `- ✅ ${target} created`;
+    }
+    const unchanged = before !== undefined && after &&
+      before.metadata?.resourceVersion === after.metadata?.resourceVersion;
+    return `- ✅ ${target} ${unchanged ? "unchanged" : "configured"}`;
+  });
+  const failed = applied.filter(a => !a.result.ok).length;
+  return `### Apply results\n${lines.join("\n")}` +
+    (failed ? `\n\n⚠️ ${failed} of ${applied.length} document(s) failed; the others were applied.` : "");
+}
@@ -0,0 +1,337 @@
+import * as vscode from "vscode";
+import * as k8s from "@kubernetes/client-node";
+import { z } from "zod";
+import { isDestructive, isMutating, ToolCall, ToolResult } from "./kubernetes";
+
+/* =========================================================
+ * Types
+ * ========================================================= */
+
+export type Tier = "dev" | "qa" | "prod";
+
+export type Policy = {
+  namespaces: { allow: string[]; deny: string[] };
+  images: { namespace: string; registries: string[] }[];
+  replicas: { namespace: string; max: number }[];
+  forbiddenTools: { namespace: string; tools: string[] }[];
+  tiers: Record<Tier, { contexts: string[]; namespaces: string[] }>;
+  allowDestructiveInProd: boolean;
+  allowClusterScoped: boolean; // Mutations without a target namespace (nodes, CRDs, cluster RBAC, ...)
+  sources: string[]; // Where the rules were loaded from, for display only
+};
+
+export type PolicyViolation = {
+  rule: "namespace" | "image" | "replicas" | "tool" | "tier";
+  message: string;
+};
+
+export type PolicyDecision = {
+  allowed: boolean;
+  violations: PolicyViolation[];
+};
+
+export const POLICY_FILE = ".kube-copilot/policy.yaml";
+
+// Highest first: a target matching several tiers gets the strictest one
+const TIER_ORDER: Tier[] = ["prod", "qa", "dev"];
+
+const policySchema = z.object({
+  namespaces: z.object({
+    allow: z.array(z.string()).optional(),
+    deny: z.array(z.string()).optional()
+  }).optional(),
+  images: z.array(z.object({
+    namespace: z.string().default("*"),
+    registries: z.array(z.string())
+  })).optional(),
+  replicas: z.array(z.object({
+    namespace: z.string().default("*"),
+    max: z.number().int().nonnegative()
+  })).optional(),
+  forbiddenTools: z.array(z.object({
+    namespace: z.string().default("*"),
+    tools: z.array(z.string())
+  })).optional()
+});
+
+const tierSchema = z.object({
+  contexts: z.array(z.string()).default([]),
+  namespaces: z.array(z.string()).default([])
+});
+
+const tiersSchema = z.object({
+  dev: tierSchema.optional(),
+  qa: tierSchema.optional(),
+  prod: tierSchema.optional()
+});
+
+type PolicyRules = z.infer<typeof policySchema>;
+
+/* =========================================================
+ * Loading
+ * ========================================================= */
+
+/**
+ * Builds the effective policy from the legacy `allowNamespaces` / `allowedImages` /
+ * `maxReplicas` settings, the `kubeCopilot.policy` setting and the workspace
+ * `.kube-copilot/policy.yaml` file, in that order.
+ * Rule lists are appended; a non-empty `namespaces.allow` replaces the earlier allowlist.
+ * Throws if any source is malformed so a broken policy never silently allows everything.
+ */
+export async function loadPolicy(): Promise<Policy> {
+  const cfg = vscode.workspace.getConfiguration("kubeCopilot");
+  const allowedImages = cfg.get<string[]>("allowedImages") ?? [];
+  const policy: Policy = {
+    namespaces: { allow: cfg.get<string[]>("allowNamespaces") ?? ["dev"], deny: [] },
+    images: allowedImages.length ? [{ namespace: "*", registries: allowedImages }] : [],
+    replicas: [{ namespace: "*", max: cfg.get<number>("maxReplicas") ?? 20 }],
+    forbiddenTools: [],
+    tiers: parseTiers(cfg.get<object>("tiers") ?? {}),
+    allowDestructiveInProd: cfg.get<boolean>("allowDestructiveInProd") ?? false,
+    allowClusterScoped: cfg.get<boolean>("allowClusterScoped") ?? false,
+    sources: ["settings"]
+  };
+
+  const fromSettings = cfg.get<object>("policy");
+  if (fromSettings && Object.keys(fromSettings).length > 0) {
+    mergePolicy(policy, parsePolicy(fromSettings, "kubeCopilot.policy"), "kubeCopilot.policy");
+  }
+
+  const fileText = await readPolicyFile();
+  if (fileText !== undefined) {
+    let raw: unknown;
+    try {
+      raw = k8s.loadYaml(fileText) ?? {};
+    } catch (e: any) {
+      throw new Error(`${POLICY_FILE} is not valid YAML: ${e.message}`);
+    }
+    mergePolicy(policy, parsePolicy(raw, POLICY_FILE), POLICY_FILE);
+  }
+
+  return policy;
+}
+
+async function readPolicyFile(): Promise<string | undefined> {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    return undefined;
+  }
+  const uri = vscode.Uri.joinPath(folder.uri, ...POLICY_FILE.split("/"));
+  try {
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    return Buffer.from(bytes).toString("utf8");
+  } catch (e: any) {
+    if (e instanceof vscode.FileSystemError && e.code === "FileNotFound") {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+function parsePolicy(raw: unknown, source: string): PolicyRules {
+  const parsed = policySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid policy in ${source}: ${issues.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+function parseTiers(raw: unknown): Policy["tiers"] {
+  const parsed = tiersSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid kubeCopilot.tiers: ${issues.join("; ")}`);
+  }
+  const empty = { contexts: [], namespaces: [] };
+  return {
+    dev: parsed.data.dev ?? empty,
+    qa: parsed.data.qa ?? empty,
+    prod: parsed.data.prod ?? empty
+  };
+}
+
+function mergePolicy(target: Policy, rules: PolicyRules, source: string): void {
+  if (rules.namespaces?.allow?.length) {
+    target.namespaces.allow = rules.namespaces.allow;
+  }
+  target.namespaces.deny.push(...(rules.namespaces?.deny ?? []));
+  target.images.push(...(rules.images ?? []));
+  target.replicas.push(...(rules.replicas ?? []));
+  target.forbiddenTools.push(...(rules.forbiddenTools ?? []));
+  target.sources.push(source);
+}
+
+/* =========================================================
+ * Evaluation
+ * ========================================================= */
+
+/**
+ * Classifies a target by kube context and namespace. Unclassified targets are "dev",
+ * which keeps the one-click confirmation.
+ */
+export function classifyTier(policy: Policy, context: string, namespace?: string): Tier {
+  return TIER_ORDER.find(tier => {
+    const rules = policy.tiers[tier];
+    return rules.contexts.some(g => matchesGlob(g, context)) ||
+      (namespace !== undefined && rules.namespaces.some(g => matchesGlob(g, namespace)));
+  }) ?? "dev";
+}
+
+// Cluster-scoped changes reach every namespace, so they get the strictest tier
+export function classifyCallTier(policy: Policy, context: string, call: ToolCall): Tier {
+  if (isClusterScopedChange(call)) {
+    return "prod";
+  }
+  return classifyTier(policy, context, getTargetNamespace(call));
+}
+
+export function evaluatePolicy(policy: Policy, call: ToolCall, context: string): PolicyDecision {
+  const violations: PolicyViolation[] = [];
+  const namespace = getTargetNamespace(call);
+
+  if (isDestructive(call.tool) && !policy.allowDestructiveInProd && classifyCallTier(policy, context, call) === "prod") {
+    violations.push({
+      rule: "tier",
+      message: `${call.tool} is blocked on prod-tier targets (context "${context}"); enable kubeCopilot.allowDestructiveInProd to override`
+    });
+  }
+
+  // Namespace rules cannot apply to a change outside any namespace, so those are opt-in
+  if (isClusterScopedChange(call) && !policy.allowClusterScoped) {
+    violations.push({
+      rule: "namespace",
+      message: `${call.tool} targets no namespace (cluster-scoped); enable kubeCopilot.allowClusterScoped to allow cluster-scoped changes`
+    });
+  }
+
+  if (namespace) {
+    const denyRule = policy.namespaces.deny.find(g => matchesGlob(g, namespace));
+    if (denyRule) {
+      violations.push({ rule: "namespace", message: `Namespace "${namespace}" is denied by rule "${denyRule}"` });
+    } else if (policy.namespaces.allow.length && !policy.namespaces.allow.some(g => matchesGlob(g, namespace))) {
+      violations.push({
+        rule: "namespace",
+        message: `Namespace "${namespace}" is not in the allowlist (${policy.namespaces.allow.join(", ")})`
+      });
+    }
+  }
+
+  // Tool-less namespaces (e.g. listNamespaces) are only covered by "*" rules
+  const scope = namespace ?? "";
+
+  const forbidden = policy.forbiddenTools.find(r => matchesGlob(r.namespace, scope) && r.tools.includes(call.tool));
+  if (forbidden) {
+    violations.push({ rule: "tool", message: `Tool ${call.tool} is forbidden in namespace "${forbidden.namespace}"` });
+  }
+
+  const registries = policy.images.filter(r => matchesGlob(r.namespace, scope)).flatMap(r => r.registries);
+  if (registries.length) {
+    for (const image of extractImages(call)) {
+      if (!registries.some(p => image.startsWith(p))) {
+        violations.push({
+          rule: "image",
+          message: `Image "${image}" does not match an allowed registry prefix (${registries.join(", ")})`
+        });
+      }
+    }
+  }
+
+  const replicas = extractReplicas(call);
+  if (replicas !== undefined && (!Number.isInteger(replicas) || replicas < 0)) {
+    // NaN would slip past every ceiling comparison
+    violations.push({ rule: "replicas", message: "Replica count must be a non-negative integer" });
+  } else if (replicas !== undefined) {
+    const ceilings = policy.replicas.filter(r => matchesGlob(r.namespace, scope)).map(r => r.max);
+    if (ceilings.length && replicas > Math.min(...ceilings)) {
+      violations.push({
+        rule: "replicas",
+        message: `Replicas ${replicas} exceed the maximum of ${Math.min(...ceilings)} for namespace "${scope}"`
+      });
+    }
+  }
+
+  return { allowed: violations.length === 0, violations };
+}
+
+export function policyDenial(call: ToolCall, decision: PolicyDecision): ToolResult {
+  return {
+    tool: call.tool,
+    args: call.args,
+    ok: false,
+    result: `Denied by policy: ${decision.violations.map(v => v.message).join("; ")}`,
+    denied: decision.violations
+  };
+}
+
+/**
+ * Compact view of the policy for the planner prompt, so it can avoid proposing calls
+ * that will be denied anyway.
+ */
+export function describePolicy(policy: Policy): Record<string, any> {
+  const { sources: _sources, ...rules } = policy;
+  return rules;
+}
+
+// --------- Helper functions ---------
+
+export function getTargetNamespace(call: ToolCall): string | undefined {
+  if (call.tool === "createNamespace" || call.tool === "getNamespace") {
+    return call.args.name;
+  }
+  if (call.tool === "applyManifest" && call.args.kind === "Namespace") {
+    return call.args.name;
+  }
+  // Mirrors the tool, which lists events in "default" when no namespace is given
+  if (call.tool === "listNamespacedEvent") {
+    return call.args.namespace || "default";
+  }
+  return call.args.namespace;
+}
+
+// A mutation with no target namespace: nodes, CRDs, cluster RBAC, cluster-scoped manifest documents, ...
+export function isClusterScopedChange(call: ToolCall): boolean {
+  return isMutating(call.tool) && getTargetNamespace(call) === undefined;
+}
+
+function extractImages(call: ToolCall): string[] {
+  if (typeof call.args.image === "string") {
+    return [call.args.image];
+  }
+  const podSpec = call.args.patch?.spec?.template?.spec ?? getManifestPodSpec(call.args.manifest);
+  const containers = [...(podSpec?.initContainers ?? []), ...(podSpec?.containers ?? [])];
+  return containers.map((c: any) => c?.image).filter((img: any) => typeof img === "string");
+}
+
+// Pod spec of an applied manifest: a Pod, a workload template or a CronJob's job template
+function getManifestPodSpec(manifest: any): any {
+  if (!manifest || typeof manifest !== "object") {
+    return undefined;
+  }
+  if (manifest.kind === "Pod") {
+    return manifest.spec;
+  }
+  return manifest.spec?.template?.spec ?? manifest.spec?.jobTemplate?.spec?.template?.spec;
+}
+
+// For HPA bounds the higher of minReplicas and maxReplicas is what the ceiling must cover
+function extractReplicas(call: ToolCall): number | undefined {
+  const spec = call.tool === "applyManifest" ? call.args.manifest?.spec : undefined;
+  const replicas = call.args.replicas ?? call.args.patch?.spec?.replicas ?? spec?.replicas;
+  if (replicas !== undefined) {
+    return Number(replicas);
+  }
+  const bounds = [call.args.minReplicas, call.args.maxReplicas, spec?.minReplicas, spec?.maxReplicas]
+    .filter(b => b !== undefined)
+    .map(Number);
+  if (bounds.length) {
+    // NaN propagates through Math.max, so a malformed bound is still denied
+    return Math.max(...bounds);
+  }
+  return call.tool === "createDeployment" ? 1 : undefined;
+}
+
+function matchesGlob(pattern: string, value: string): boolean {
+  const source = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`).test(value);
+}
@@ -0,0 +1,208 @@
+import * as k8s from "@kubernetes/client-node";
+import { errorMessage, executeTool, readToolTarget, ToolCall } from "./kubernetes";
+import { isClusterScopedChange, Policy } from "./policy";
+
+/* =========================================================
+ * Types
+ * ========================================================= */
+
+export type FieldChange = {
+  path: string;
+  before: any;
+  after: any;
+};
+
+export type MutationPreview = {
+  call: ToolCall;
+  action: "create" | "update" | "delete";
+  ok: boolean;
+  changes: FieldChange[];
+  removal?: Removal; // Set for deletes that report what they remove (deleteResource)
+  error?: string; // Server-side rejection (validation, admission webhook, RBAC)
+};
+
+export type Removal = {
+  objects: string[];
+  dependents: string[]; // Found via ownerReferences
+  orphaned: boolean; // propagationPolicy=Orphan leaves the dependents in place
+  moreDependents: boolean;
+};
+
+const MAX_CHANGES_SHOWN = 25;
+const MAX_VALUE_LENGTH = 80;
+
+// Server-managed fields that change on every write and would drown out the real diff
+const IGNORED_PATHS = [
+  "status",
+  "metadata.resourceVersion",
+  "metadata.managedFields",
+  "metadata.generation",
+  "metadata.uid",
+  "metadata.creationTimestamp",
+  "metadata.selfLink"
+];
+
+/* =========================================================
+ * Dry run
+ * ========================================================= */
+
+/**
+ * Runs each call with dryRun=All and diffs the would-be object against the live one.
+ * Calls are previewed independently, so a call that depends on an earlier one in the
+ * same batch may be rejected here even though it would succeed in sequence.
+ */
+export async function previewMutations(
+  kc: k8s.KubeConfig,
+  calls: ToolCall[],
+  policy: Policy
+): Promise<MutationPreview[]> {
+  const previews: MutationPreview[] = [];
+  for (const call of calls) {
+    previews.push(await previewMutation(kc, call, policy));
+  }
+  return previews;
+}
+
+async function previewMutation(kc: k8s.KubeConfig, call: ToolCall, policy: Policy): Promise<MutationPreview> {
+  const action = getAction(call);
+
+  let live: any;
+  try {
+    live = await readToolTarget(kc, call);
+  } catch (e: any) {
+    return { call, action, ok: false, changes: [], error: `Failed to read live object: ${errorMessage(e)}` };
+  }
+
+  const result = await executeTool(kc, call, policy, { dryRun: true });
+  if (!result.ok) {
+    return { call, action, ok: false, changes: [], error: String(result.result) };
+  }
+  if (action === "delete") {
+    return { call, action, ok: true, changes: [], removal: toRemoval(result.result) };
+  }
+  return { call, action, ok: true, changes: diffObjects(live ?? {}, result.result) };
+}
+
+// deleteResource reports names; deleteFinishedJobs reports { name, outcome } per Job
+export function toRemoval(result: any): Removal | undefined {
+  if (!Array.isArray(result?.deleted)) {
+    return undefined;
+  }
+  const describe = (d: any) => {
+    const target = `${result.kind} ${[result.namespace, typeof d === "string" ? d : d.name].filter(Boolean).join("/")}`;
+    return d.outcome ? `${target} (${d.outcome})` : target;
+  };
+  return {
+    objects: result.deleted.map(describe),
+    dependents: (result.dependents ?? []).map((d: any) => `${d.kind} ${d.name} (owned by ${d.owner})`),
+    orphaned: result.propagationPolicy === "Orphan",
+    moreDependents: Boolean(result.dependentsTruncated)
+  };
+}
+
+function getAction(call: ToolCall): MutationPreview["action"] {
+  if (call.tool === "restoreObject") {
+    return call.args.snapshot ? "update" : "delete";
+  }
+  return call.tool.startsWith("delete") ? "delete" : call.tool.startsWith("create") ? "create" : "update";
+}
+
+/* =========================================================
+ * Diff
+ * ========================================================= */
+
+export function diffObjects(before: any, after: any, path = ""): FieldChange[] {
+  if (IGNORED_PATHS.includes(path)) {
+    return [];
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap(k => diffObjects(before[k], after[k], path ? `${path}.${k}` : k));
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    const changes: FieldChange[] = [];
+    for (let i = 0; i < length; i++) {
+      changes.push(...diffObjects(before[i], after[i], `${path}[${i}]`));
+    }
+    return changes;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path, before, after }];
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/* =========================================================
+ * Rendering
+ * ========================================================= */
+
+/**
+ * `display` lets the caller mask values (see redact.ts) before they are shown; it receives
+ * the value and its dotted path.
+ */
+export function renderPreviews(
+  previews: MutationPreview[],
+  display: (value: any, path: string) => any = value => value
+): string {
+  return previews.map(p => renderPreview(p, display)).join("\n\n");
+}
+
+function renderPreview(preview: MutationPreview, display: (value: any, path: string) => any): string {
+  const { call } = preview;
+  const target = [call.args.namespace, call.args.name ?? call.args.manifest?.metadata?.name].filter(Boolean).join("/");
+  const selector = !call.args.name && call.args.labelSelector ? ` matching \`${call.args.labelSelector}\`` : "";
+  const scope = isClusterScopedChange(call) ? " · cluster-scoped" : "";
+  const header = `#### ${call.tool} \`${target}\`${selector}${scope}`;
+
+  if (!preview.ok) {
+    return `${header}\n❌ Dry run rejected: \`${preview.error}\``;
+  }
+  if (preview.action === "delete") {
+    return preview.removal ? `${header}\n${renderRemoval(preview.removal)}` : `${header}\n🗑️ Object would be deleted.`;
+  }
+  if (preview.changes.length === 0) {
+    return `${header}\nNo field changes (the object already matches).`;
+  }
+
+  const rows = preview.changes.slice(0, MAX_CHANGES_SHOWN).map(c =>
+    `| \`${c.path}\` | ${formatValue(display(c.before, c.path))} | ${formatValue(display(c.after, c.path))} |`
+  );
+  const more = preview.changes.length > MAX_CHANGES_SHOWN
+    ? `\n\n…and ${preview.changes.length - MAX_CHANGES_SHOWN} more field(s).`
+    : "";
+  return `${header}\n| Field | Current | After |\n|---|---|---|\n${rows.join("\n")}${more}`;
+}
+
+function renderRemoval(removal: Removal): string {
+  const lines = [`🗑️ ${removal.objects.length} object(s) would be deleted:`, ...removal.objects.map(o => `- \`${o}\``)];
+  if (removal.dependents.length) {
+    lines.push(
+      "",
+      `Dependents found via ownerReferences (${removal.orphaned ? "left in place, orphaned" : "deleted with their owners"}):`,
+      ...removal.dependents.map(d => `- \`${d}\``)
+    );
+    if (removal.moreDependents) {
+      lines.push("- …and more");
+    }
+  }
+  return lines.join("\n");
+}
+
+function formatValue(value: any): string {
+  if (value === undefined) {
+    return "_(unset)_";
+  }
+  let text = typeof value === "string" ? value : JSON.stringify(value);
+  if (text.length > MAX_VALUE_LENGTH) {
+    text = `${text.slice(0, MAX_VALUE_LENGTH)}…`;
+  }
+  return `\`${text.replace(/\|/g, "\\|").replace(/`/g, "'").replace(/\n/g, " ")}\``;
+}
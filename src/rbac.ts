@@ -0,0 +1,224 @@
+import * as k8s from "@kubernetes/client-node";
+import { resolveResource } from "./discovery";
+import { errorMessage, getWorkloadKind, resolveIstioResource, ToolCall } from "./kubernetes";
+
+/* =========================================================
+ * Types
+ * ========================================================= */
+
+export type AccessCheck = {
+  call: ToolCall;
+  allowed: boolean;
+  denied: { attributes: k8s.V1ResourceAttributes; reason?: string }[];
+};
+
+export type PermissionSummary = {
+  namespace: string;
+  rules: string[]; // "verbs on resources", one line per RBAC rule
+  incomplete: boolean;
+};
+
+const MAX_RULES_SUMMARIZED = 40;
+
+/* =========================================================
+ * Preflight
+ * ========================================================= */
+
+/**
+ * Issues one SelfSubjectAccessReview per API request a tool call will make.
+ * A review that itself fails is reported as denied with the error as reason,
+ * so an unreachable authorizer never reads as "allowed".
+ */
+export async function preflightAccess(kc: k8s.KubeConfig, calls: ToolCall[]): Promise<AccessCheck[]> {
+  const authz = kc.makeApiClient(k8s.AuthorizationV1Api);
+  const checks: AccessCheck[] = [];
+  for (const call of calls) {
+    const denied: AccessCheck["denied"] = [];
+    for (const attributes of await getAccessAttributes(kc, call)) {
+      try {
+        const res = await authz.createSelfSubjectAccessReview({
+          apiVersion: "authorization.k8s.io/v1",
+          kind: "SelfSubjectAccessReview",
+          spec: { resourceAttributes: attributes }
+        });
+        if (!res.body.status?.allowed) {
+          denied.push({ attributes, reason: res.body.status?.reason });
+        }
+      } catch (e: any) {
+        denied.push({ attributes, reason: `access review failed: ${errorMessage(e)}` });
+      }
+    }
+    checks.push({ call, allowed: denied.length === 0, denied });
+  }
+  return checks;
+}
+
+/**
+ * Maps a tool call to the API requests it makes. Reads that precede an update are included
+ * because read-modify-write tools fail without them.
+ */
+export async function getAccessAttributes(kc: k8s.KubeConfig, call: ToolCall): Promise<k8s.V1ResourceAttributes[]> {
+  const { namespace, name } = call.args;
+  const on = (verb: string, group: string, resource: string, objectName?: string): k8s.V1ResourceAttributes =>
+    ({ verb, group, resource, namespace, name: objectName });
+
+  switch (call.tool) {
+    case "createNamespace":
+      return [{ verb: "create", group: "", resource: "namespaces" }];
+    case "createPod":
+      return [on("create", "", "pods")];
+    case "createDeployment":
+      return [on("create", "apps", "deployments")];
+    case "updateDeployment":
+      return [on("patch", "apps", "deployments", name)];
+    case "updateDeploymentImage":
+    case "scaleDeployment":
+      return [on("get", "apps", "deployments", name), on("update", "apps", "deployments", name)];
+    case "deleteDeployment":
+      return [on("delete", "apps", "deployments", name)];
+    case "scaleStatefulSet":
+    case "updateStatefulSetImage":
+      return [on("get", "apps", "statefulsets", name), on("update", "apps", "statefulsets", name)];
+    case "updateDaemonSetImage":
+      return [on("get", "apps", "daemonsets", name), on("update", "apps", "daemonsets", name)];
+    case "createJobFromCronJob":
+      return [on("get", "batch", "cronjobs", call.args.cronJobName), on("create", "batch", "jobs")];
+    case "suspendCronJob":
+    case "resumeCronJob":
+      return [on("patch", "batch", "cronjobs", name)];
+    case "deleteFinishedJobs":
+      return [on("list", "batch", "jobs"), on("delete", "batch", "jobs")];
+    case "updateHpaReplicaBounds":
+      return [on("get", "autoscaling", "horizontalpodautoscalers", name), on("patch", "autoscaling", "horizontalpodautoscalers", name)];
+    case "cordonNode":
+    case "uncordonNode":
+      return [{ verb: "patch", group: "", resource: "nodes", name }];
+    case "rollbackDeployment":
+      return [on("get", "apps", "deployments", name), on("list", "apps", "replicasets"), on("update", "apps", "deployments", name)];
+    case "createConfigMap":
+      return [on("create", "", "configmaps")];
+    case "updateConfigMap":
+      return [on("get", "", "configmaps", name), on("update", "", "configmaps", name)];
+    case "createService":
+      return [on("create", "", "services")];
+    case "updateService":
+      return [on("get", "", "services", name), on("update", "", "services", name)];
+    case "restartWorkload": {
+      const plural = `${getWorkloadKind(call.args.kind).toLowerCase()}s`;
+      return [on("patch", "apps", plural, name)];
+    }
+    case "createIstioObject": {
+      const resource = await istioResourceForKind(kc, call.args.kind);
+      if (!resource) {
+        return [];
+      }
+      return [on("create", resource.group, resource.plural)];
+    }
+    case "updateIstioObject": {
+      const resource = await istioResourceForKind(kc, call.args.kind);
+      if (!resource) {
+        return [];
+      }
+      return [on("patch", resource.group, resource.plural, name)];
+    }
+    case "deleteResource": {
+      const resource = await resourceForKind(kc, call.args.kind, call.args.apiVersion);
+      if (!resource) {
+        return [];
+      }
+      if (!name) {
+        return [on("list", resource.group, resource.plural), on("delete", resource.group, resource.plural)];
+      }
+      return [on("get", resource.group, resource.plural, name), on("delete", resource.group, resource.plural, name)];
+    }
+    case "applyManifest": {
+      // Server-side apply is a patch, also when it creates the object
+      const resource = await resourceForKind(kc, call.args.kind, call.args.apiVersion);
+      if (!resource) {
+        return [];
+      }
+      return [on("patch", resource.group, resource.plural, name)];
+    }
+    case "restoreObject": {
+      const resource = await resourceForKind(kc, call.args.kind, call.args.apiVersion);
+      if (!resource) {
+        return [];
+      }
+      const verb = !call.args.snapshot ? "delete" : call.args.expectedResourceVersion ? "update" : "create";
+      return [on("get", resource.group, resource.plural, name), on(verb, resource.group, resource.plural, name)];
+    }
+    default:
+      return [];
+  }
+}
+
+async function resourceForKind(
+  kc: k8s.KubeConfig,
+  kind: string,
+  apiVersion?: string
+): Promise<{ group: string; plural: string } | undefined> {
+  try {
+    const { group, plural } = await resolveResource(kc, kind, { apiVersion });
+    return { group, plural };
+  } catch {
+    return undefined;
+  }
+}
+
+// Non-Istio kinds are refused by the tool itself; its dry run reports why
+async function istioResourceForKind(kc: k8s.KubeConfig, kind: string): Promise<{ group: string; plural: string } | undefined> {
+  try {
+    const { group, plural } = await resolveIstioResource(kc, kind);
+    return { group, plural };
+  } catch {
+    return undefined;
+  }
+}
+
+/* =========================================================
+ * Planner summary
+ * ========================================================= */
+
+/**
+ * Summarizes what the current identity may do in a namespace via SelfSubjectRulesReview,
+ * so the planner can avoid proposing actions that would be forbidden.
+ */
+export async function summarizePermissions(kc: k8s.KubeConfig, namespace: string): Promise<PermissionSummary> {
+  const authz = kc.makeApiClient(k8s.AuthorizationV1Api);
+  const res = await authz.createSelfSubjectRulesReview({
+    apiVersion: "authorization.k8s.io/v1",
+    kind: "SelfSubjectRulesReview",
+    spec: { namespace }
+  });
+  const status = res.body.status;
+  const rules = (status?.resourceRules ?? []).map(r => {
+    const resources = (r.resources ?? []).map(res => {
+      const group = r.apiGroups?.find(g => g);
+      return group ? `${res}.${group}` : res;
+    });
+    const names = r.resourceNames?.length ? ` (names: ${r.resourceNames.join(", ")})` : "";
+    return `${r.verbs.join(",")} on ${resources.join(",")}${names}`;
+  });
+  return {
+    namespace,
+    rules: rules.slice(0, MAX_RULES_SUMMARIZED),
+    incomplete: Boolean(status?.incomplete) || rules.length > MAX_RULES_SUMMARIZED
+  };
+}
+
+/* =========================================================
+ * Rendering
+ * ========================================================= */
+
+export function renderAccessChecks(checks: AccessCheck[]): string {
+  const failing = checks.filter(c => !c.allowed);
+  if (!failing.length) {
+    return "";
+  }
+  const lines = failing.flatMap(c => c.denied.map(d => {
+    const { verb, group, resource, namespace, name } = d.attributes;
+    const target = `${resource}${group ? `.${group}` : ""}${name ? `/${name}` : ""}${namespace ? ` in ${namespace}` : ""}`;
+    return `- **${c.call.tool}**: cannot \`${verb}\` ${target}${d.reason ? ` (${d.reason})` : ""}`;
+  }));
+  return `🔒 **Your current identity is not permitted to perform:**\n${lines.join("\n")}\n\nThese calls will fail with 403 if you confirm.`;
+}
@@ -0,0 +1,188 @@
+import { ToolResult } from "./kubernetes";
+
+/* =========================================================
+ * Types
+ * ========================================================= */
+
+export type RedactionRules = {
+  keyPatterns: RegExp[];
+  redactBase64: boolean;
+};
+
+/**
+ * Placeholder ↔ original value map for one session. The same value always gets the same
+ * placeholder so the model can still tell two values apart or see that they match.
+ * Lives only in extension memory; never serialized into a prompt.
+ */
+export type RedactionVault = {
+  byPlaceholder: Map<string, string>;
+  byValue: Map<string, string>;
+  next: number;
+};
+
+export const DEFAULT_KEY_PATTERNS = ["password", "passwd", "secret", "token", "key", "credential", "auth"];
+
+// Structural fields whose values are names, not secrets (e.g. secretKeyRef.key, getDeploymentRefs.secrets)
+const SAFE_FIELDS = new Set([
+  "key",
+  "keys",
+  "name",
+  "kind",
+  "secretName",
+  "secrets",
+  "dataKeys",
+  "binaryDataKeys",
+  "imagePullSecrets",
+  "operator",
+  "effect",
+  "continueToken",
+  "credentialName"
+]);
+
+const CREDENTIAL_FORMATS: { label: string; pattern: RegExp }[] = [
+  { label: "private-key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { label: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { label: "github-token", pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { label: "slack-token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { label: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { label: "bearer-token", pattern: /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g },
+  { label: "url-password", pattern: /(?<=\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)[^\s@/]+(?=@)/gi }
+];
+
+// Long base64 runs; pure hex (image digests, hashes) is excluded because it is not secret material
+const BASE64_BLOB = /[A-Za-z0-9+/]{40,}={0,2}/g;
+const PLACEHOLDER = /\[REDACTED:[\w-]+#\d+\]/g;
+
+/* =========================================================
+ * Redaction
+ * ========================================================= */
+
+export function buildRedactionRules(keyPatterns: string[], redactBase64: boolean): RedactionRules {
+  return {
+    keyPatterns: keyPatterns.map(p => new RegExp(p, "i")),
+    redactBase64
+  };
+}
+
+export function createVault(): RedactionVault {
+  return { byPlaceholder: new Map(), byValue: new Map(), next: 1 };
+}
+
+/**
+ * Deep-copies tool results with sensitive values replaced by placeholders. Results are
+ * redacted as a whole, including args, since the model sees both.
+ */
+export function redactResults(results: ToolResult[], rules: RedactionRules, vault: RedactionVault): ToolResult[] {
+  return results.map(r => redactValue(r, rules, vault, undefined));
+}
+
+export function redactValue(value: any, rules: RedactionRules, vault: RedactionVault, key: string | undefined): any {
+  if (Array.isArray(value)) {
+    return value.map(v => redactValue(v, rules, vault, key));
+  }
+
+  if (value !== null && typeof value === "object") {
+    // env entries: { name: "DB_PASSWORD", value: "..." }
+    const sensitiveEnv = typeof value.name === "string" && isSensitiveKey(value.name, rules) && "value" in value;
+    const copy: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      copy[k] = sensitiveEnv && k === "value"
+        ? maskScalar(v, value.name, vault)
+        : redactValue(v, rules, vault, k);
+    }
+    return copy;
+  }
+
+  if (typeof value === "string" || typeof value === "number") {
+    if (key !== undefined && isSensitiveKey(key, rules)) {
+      return maskScalar(value, key, vault);
+    }
+    return typeof value === "string" ? redactString(value, rules, vault) : value;
+  }
+
+  return value;
+}
+
+function isSensitiveKey(key: string, rules: RedactionRules): boolean {
+  return !SAFE_FIELDS.has(key) && rules.keyPatterns.some(p => p.test(key));
+}
+
+function maskScalar(value: any, label: string, vault: RedactionVault): any {
+  if (value === "" || value === null || value === undefined) {
+    return value;
+  }
+  return placeholderFor(String(value), label, vault);
+}
+
+function redactString(value: string, rules: RedactionRules, vault: RedactionVault): string {
+  let text = value;
+  for (const { label, pattern } of CREDENTIAL_FORMATS) {
+    text = text.replace(pattern, match => placeholderFor(match, label, vault));
+  }
+  if (rules.redactBase64) {
+    text = text.replace(BASE64_BLOB, match =>
+      /^[0-9a-f]+$/i.test(match) ? match : placeholderFor(match, "base64", vault)
+    );
+  }
+  return text;
+}
+
+function placeholderFor(original: string, label: string, vault: RedactionVault): string {
+  const existing = vault.byValue.get(original);
+  if (existing) {
+    return existing;
+  }
+  const safeLabel = label.replace(/[^\w-]/g, "_").slice(0, 32) || "value";
+  const placeholder = `[REDACTED:${safeLabel}#${vault.next++}]`;
+  vault.byValue.set(original, placeholder);
+  vault.byPlaceholder.set(placeholder, original);
+  return placeholder;
+}
+
+/* =========================================================
+ * Local reveal
+ * ========================================================= */
+
+export function revealPlaceholders(text: string, vault: RedactionVault): string {
+  return text.replace(PLACEHOLDER, p => vault.byPlaceholder.get(p) ?? p);
+}
+
+/**
+ * Substitutes placeholders the planner copied into tool call args, so e.g. a ConfigMap update
+ * that keeps an existing password writes the real value, not the placeholder.
+ */
+export function revealValue(value: any, vault: RedactionVault): any {
+  if (typeof value === "string") {
+    return revealPlaceholders(value, vault);
+  }
+  if (Array.isArray(value)) {
+    return value.map(v => revealValue(v, vault));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, revealValue(v, vault)]));
+  }
+  return value;
+}
+
+/**
+ * Reveals placeholders in streamed model output. A placeholder can be split across chunks,
+ * so a trailing unterminated "[" is held back until the next chunk or flush().
+ */
+export function createStreamRevealer(vault: RedactionVault): { push(chunk: string): string; flush(): string } {
+  let held = "";
+  return {
+    push(chunk: string): string {
+      held += chunk;
+      const open = held.lastIndexOf("[");
+      const cut = open >= 0 && !held.slice(open).includes("]") && held.length - open < 48 ? open : held.length;
+      const ready = held.slice(0, cut);
+      held = held.slice(cut);
+      return revealPlaceholders(ready, vault);
+    },
+    flush(): string {
+      const rest = held;
+      held = "";
+      return revealPlaceholders(rest, vault);
+    }
+  };
+}
@@ -0,0 +1,211 @@
+import * as vscode from "vscode";
+import * as k8s from "@kubernetes/client-node";
+import { errorMessage, getWorkloadKind, toLabelSelector, ToolCall } from "./kubernetes";
+
+/* =========================================================
+ * Types
+ * ========================================================= */
+
+export type RolloutOutcome = {
+  kind: string;
+  namespace: string;
+  name: string;
+  status: "complete" | "failed" | "timeout" | "cancelled";
+  message: string;
+  replicas?: number;
+  updatedReplicas?: number;
+  availableReplicas?: number;
+  failingPods: { pod: string; reason?: string; restarts: number; events: { type?: string; reason?: string; message?: string; count?: number }[] }[];
+};
+
+export type RolloutProgress = {
+  done: boolean;
+  failed: boolean;
+  message: string;
+};
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_FAILING_PODS = 3;
+const MAX_EVENTS_PER_POD = 10;
+
+/* =========================================================
+ * Watcher
+ * ========================================================= */
+
+// Calls whose success only means the spec was accepted, not that the new pods came up
+export function startsRollout(call: ToolCall): boolean {
+  if (call.tool === "restartWorkload") {
+    return getWorkloadKind(call.args.kind) === "Deployment";
+  }
+  return call.tool === "updateDeploymentImage" || call.tool === "scaleDeployment" || call.tool === "rollbackDeployment";
+}
+
+/**
+ * Polls the deployment until the rollout converges, fails or times out, streaming a line
+ * whenever progress changes. Mirrors `kubectl rollout status`: the controller must have
+ * observed the new generation, all replicas must be updated and available, and old replicas
+ * must be gone. A Progressing=False condition with ProgressDeadlineExceeded is a failure.
+ */
+export async function watchRollout(
+  kc: k8s.KubeConfig,
+  namespace: string,
+  name: string,
+  timeoutSeconds: number,
+  stream: vscode.ChatResponseStream,
+  token: vscode.CancellationToken
+): Promise<RolloutOutcome> {
+  const apps = kc.makeApiClient(k8s.AppsV1Api);
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  let lastMessage = "";
+  let deployment: k8s.V1Deployment | undefined;
+
+  stream.progress(`Watching rollout of deployment ${namespace}/${name}…`);
+  while (true) {
+    if (token.isCancellationRequested) {
+      return outcome(deployment, namespace, name, "cancelled", "Stopped watching; the rollout continues in the cluster.", []);
+    }
+
+    try {
+      deployment = (await apps.readNamespacedDeployment(name, namespace)).body;
+    } catch (e: any) {
+      return outcome(deployment, namespace, name, "failed", `Failed to read deployment: ${errorMessage(e)}`, []);
+    }
+
+    const progress = getRolloutProgress(deployment);
+    if (progress.message !== lastMessage) {
+      stream.markdown(`- ⏳ \`${name}\`: ${progress.message}\n`);
+      lastMessage = progress.message;
+    }
+    if (progress.done) {
+      return outcome(deployment, namespace, name, "complete", progress.message, []);
+    }
+    if (progress.failed) {
+      const failingPods = await collectFailingPods(kc, namespace, deployment);
+      return outcome(deployment, namespace, name, "failed", progress.message, failingPods);
+    }
+    if (Date.now() >= deadline) {
+      const failingPods = await collectFailingPods(kc, namespace, deployment);
+      return outcome(
+        deployment,
+        namespace,
+        name,
+        "timeout",
+        `Rollout did not finish within ${timeoutSeconds}s (last state: ${progress.message})`,
+        failingPods
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+export function getRolloutProgress(deployment: k8s.V1Deployment): RolloutProgress {
+  const generation = deployment.metadata?.generation ?? 0;
+  const status = deployment.status ?? {};
+  const desired = deployment.spec?.replicas ?? 1;
+  const updated = status.updatedReplicas ?? 0;
+  const available = status.availableReplicas ?? 0;
+  const current = status.replicas ?? 0;
+
+  if ((status.observedGeneration ?? 0) < generation) {
+    return { done: false, failed: false, message: "waiting for the controller to observe the new spec" };
+  }
+  const progressing = status.conditions?.find(c => c.type === "Progressing");
+  if (progressing?.reason === "ProgressDeadlineExceeded") {
+    return { done: false, failed: true, message: `progress deadline exceeded: ${progressing.message ?? ""}`.trim() };
+  }
+  if (updated < desired) {
+    return { done: false, failed: false, message: `${updated} of ${desired} replicas updated` };
+  }
+  if (current > updated) {
+    return { done: false, failed: false, message: `${current - updated} old replicas pending termination` };
+  }
+  if (available < updated) {
+    return { done: false, failed: false, message: `${available} of ${updated} updated replicas available` };
+  }
+  return { done: true, failed: false, message: `rollout complete (${available}/${desired} available)` };
+}
+
+async function collectFailingPods(
+  kc: k8s.KubeConfig,
+  namespace: string,
+  deployment: k8s.V1Deployment
+): Promise<RolloutOutcome["failingPods"]> {
+  const labelSelector = toLabelSelector(deployment.spec?.selector);
+  if (!labelSelector) {
+    return [];
+  }
+
+  const core = kc.makeApiClient(k8s.CoreV1Api);
+  try {
+    const pods = (await core.listNamespacedPod(namespace, undefined, undefined, undefined, undefined, labelSelector, 50)).body.items;
+    const failing = pods.filter(p => !isPodReady(p)).slice(0, MAX_FAILING_PODS);
+
+    const result: RolloutOutcome["failingPods"] = [];
+    for (const pod of failing) {
+      const podName = pod.metadata?.name ?? "";
+      const statuses = pod.status?.containerStatuses ?? [];
+      const waiting = statuses.find(s => s.state?.waiting)?.state?.waiting;
+      const terminated = statuses.find(s => s.lastState?.terminated)?.lastState?.terminated;
+      const events = await core.listNamespacedEvent(
+        namespace,
+        undefined,
+        undefined,
+        undefined,
+        `involvedObject.kind=Pod,involvedObject.name=${podName}`
+      );
+      result.push({
+        pod: podName,
+        reason: waiting?.reason ?? terminated?.reason ?? pod.status?.reason ?? pod.status?.phase,
+        restarts: statuses.reduce((sum, s) => sum + (s.restartCount ?? 0), 0),
+        events: events.body.items.slice(-MAX_EVENTS_PER_POD).map(e => ({
+          type: e.type,
+          reason: e.reason,
+          message: e.message,
+          count: e.count
+        }))
+      });
+    }
+    return result;
+  } catch (e: any) {
+    console.warn(`Failed to collect failing pods for ${deployment.metadata?.name}:`, errorMessage(e));
+    return [];
+  }
+}
+
+function isPodReady(pod: k8s.V1Pod): boolean {
+  return pod.status?.conditions?.some(c => c.type === "Ready" && c.status === "True") ?? false;
+}
+
+function outcome(
+  deployment: k8s.V1Deployment | undefined,
+  namespace: string,
+  name: string,
+  status: RolloutOutcome["status"],
+  message: string,
+  failingPods: RolloutOutcome["failingPods"]
+): RolloutOutcome {
+  return {
+    kind: "Deployment",
+    namespace,
+    name,
+    status,
+    message,
+    replicas: deployment?.spec?.replicas,
+    updatedReplicas: deployment?.status?.updatedReplicas,
+    availableReplicas: deployment?.status?.availableReplicas,
+    failingPods
+  };
+}
+
+/* =========================================================
+ * Rendering
+ * ========================================================= */
+
+export function renderRolloutOutcome(rollout: RolloutOutcome): string {
+  const icon = rollout.status === "complete" ? "✅" : rollout.status === "cancelled" ? "⏹️" : "❌";
+  const lines = [`${icon} Rollout of \`${rollout.namespace}/${rollout.name}\` ${rollout.status}: ${rollout.message}`];
+  for (const pod of rollout.failingPods) {
+    lines.push(`  - \`${pod.pod}\`: ${pod.reason ?? "not ready"}${pod.restarts ? ` (${pod.restarts} restarts)` : ""}`);
+  }
+  return lines.join("\n");
+}
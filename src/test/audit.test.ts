@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { AuditEntry, filterAuditEntries, parseAuditFilter } from '../audit';
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+	return {
+		timestamp: '2026-01-15T10:00:00.000Z',
+		context: 'dev-cluster',
+		planId: 'abcd1234',
+		planHash: '0123456789ab',
+		prompt: 'scale web to 3',
+		planSummary: 'Scale deployment web',
+		tool: 'scaleDeployment',
+		args: {},
+		kind: 'Deployment',
+		namespace: 'dev',
+		name: 'web',
+		ok: true,
+		...overrides
+	};
+}
+
+suite('Audit Filter Test Suite', () => {
+	test('parses key=value filters and keeps the remaining words as text', () => {
+		const filter = parseAuditFilter('resource=web ns=dev since=2026-01-01 until=2026-01-31 limit=5 image rollout');
+		assert.deepStrictEqual(filter, {
+			resource: 'web',
+			namespace: 'dev',
+			since: new Date('2026-01-01'),
+			until: new Date('2026-01-31'),
+			limit: 5,
+			text: 'image rollout'
+		});
+	});
+
+	test('defaults the limit and keeps unknown keys and bare words as text', () => {
+		assert.deepStrictEqual(parseAuditFilter('limit=abc owner=team x='), { limit: 20, text: 'owner=team x=' });
+		assert.deepStrictEqual(parseAuditFilter(''), { limit: 20 });
+	});
+
+	test('rejects unparsable dates', () => {
+		assert.throws(() => parseAuditFilter('since=yesterday'), /Invalid since date: yesterday/);
+	});
+
+	test('filters entries and returns the newest first', () => {
+		const entries = [
+			entry({ timestamp: '2026-01-10T00:00:00.000Z', name: 'web' }),
+			entry({ timestamp: '2026-01-20T00:00:00.000Z', name: 'api', prompt: 'scale api' }),
+			entry({ timestamp: '2026-01-25T00:00:00.000Z', name: 'web', namespace: 'qa' }),
+			entry({ timestamp: '2026-01-30T00:00:00.000Z', name: 'web' })
+		];
+		const names = (query: string) => filterAuditEntries(entries, parseAuditFilter(query)).map(e => `${e.namespace}/${e.name}@${e.timestamp.slice(8, 10)}`);
+		assert.deepStrictEqual(names('resource=web ns=dev'), ['dev/web@30', 'dev/web@10']);
+		assert.deepStrictEqual(names('since=2026-01-15 until=2026-01-26'), ['qa/web@25', 'dev/api@20']);
+		assert.deepStrictEqual(names('API'), ['dev/api@20']);
+		assert.deepStrictEqual(names('limit=1'), ['dev/web@30']);
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { hashPlan, isPlanExpired, matchesTypedConfirmation } from '../extension';
+import { ToolCall } from '../kubernetes';
+
+suite('Typed Confirmation Test Suite', () => {
+	const targets = [{ namespace: 'payments', name: 'api' }];
+
+	test('accepts the namespace or the resource name', () => {
+		assert.strictEqual(matchesTypedConfirmation('payments', targets), true);
+		assert.strictEqual(matchesTypedConfirmation('api', targets), true);
+	});
+
+	test('rejects generic confirmations and extra words', () => {
+		assert.strictEqual(matchesTypedConfirmation('confirm', targets), false);
+		assert.strictEqual(matchesTypedConfirmation('payments please', targets), false);
+		assert.strictEqual(matchesTypedConfirmation('what is running in payments', targets), false);
+		assert.strictEqual(matchesTypedConfirmation('', targets), false);
+	});
+
+	test('requires every production target to be acknowledged', () => {
+		const two = [{ namespace: 'payments', name: 'api' }, { namespace: 'billing', name: 'worker' }];
+		assert.strictEqual(matchesTypedConfirmation('payments', two), false);
+		assert.strictEqual(matchesTypedConfirmation('payments billing', two), true);
+		assert.strictEqual(matchesTypedConfirmation('api, worker', two), true);
+	});
+});
+
+suite('Pending Plan Test Suite', () => {
+	const calls: ToolCall[] = [{ tool: 'scaleDeployment', args: { namespace: 'dev', name: 'web', replicas: 3 } }];
+
+	test('hashes context and calls deterministically', () => {
+		assert.strictEqual(hashPlan('dev-cluster', calls), hashPlan('dev-cluster', JSON.parse(JSON.stringify(calls))));
+		assert.match(hashPlan('dev-cluster', calls), /^[0-9a-f]{12}$/);
+	});
+
+	test('changes the hash when the context or an argument changes', () => {
+		const hash = hashPlan('dev-cluster', calls);
+		assert.notStrictEqual(hashPlan('prod-cluster', calls), hash);
+		assert.notStrictEqual(hashPlan('dev-cluster', [{ ...calls[0], args: { ...calls[0].args, replicas: 4 } }]), hash);
+	});
+
+	test('expires plans only after their deadline', () => {
+		const pending = { expiresAt: 1_000 };
+		assert.strictEqual(isPlanExpired(pending, 999), false);
+		assert.strictEqual(isPlanExpired(pending, 1_000), false);
+		assert.strictEqual(isPlanExpired(pending, 1_001), true);
+	});
+});
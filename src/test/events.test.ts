@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { executeTool } from '../kubernetes';
+import { FakeCluster, openPolicy, startFakeCluster } from './fakeCluster';
+
+const event = (name: string, lastSeen: string, type = 'Normal') => ({
+	metadata: { name, creationTimestamp: '2026-01-01T00:00:00Z' },
+	type,
+	reason: type === 'Warning' ? 'BackOff' : 'Pulled',
+	note: `${name} happened`,
+	regarding: { kind: 'Pod', name: 'web-1' },
+	series: { count: 2, lastObservedTime: lastSeen }
+});
+
+const coreEvent = (name: string, lastTimestamp: string) => ({
+	metadata: { name, creationTimestamp: '2026-01-01T00:00:00Z' },
+	type: 'Normal',
+	reason: 'Scheduled',
+	message: `${name} happened`,
+	count: 1,
+	involvedObject: { kind: 'Pod', name: 'web-1' },
+	lastTimestamp
+});
+
+suite('Event Listing Test Suite', () => {
+	let cluster: FakeCluster;
+
+	suiteSetup(async () => {
+		cluster = await startFakeCluster({
+			'/apis/events.k8s.io/v1/namespaces/dev/events': {
+				items: [
+					event('old', '2026-01-01T10:00:00Z'),
+					event('newest', '2026-01-01T12:00:00Z', 'Warning'),
+					event('middle', '2026-01-01T11:00:00Z')
+				]
+			},
+			// No events.k8s.io in "default", so the tool falls back to core v1 there
+			'/api/v1/namespaces/default/events': {
+				items: [coreEvent('first', '2026-01-01T09:00:00Z'), coreEvent('second', '2026-01-01T09:30:00Z')]
+			}
+		});
+	});
+
+	suiteTeardown(() => {
+		cluster.close();
+	});
+
+	test('sorts newest first and applies the limit after sorting', async () => {
+		const res = await executeTool(cluster.kc, { tool: 'listNamespacedEvent', args: { namespace: 'dev', limit: 2 } }, openPolicy());
+		assert.strictEqual(res.result.api, 'events.k8s.io/v1');
+		assert.strictEqual(res.result.total, 3);
+		assert.deepStrictEqual(res.result.items.map((e: any) => e.message), ['newest happened', 'middle happened']);
+		assert.deepStrictEqual(res.result.items[0], {
+			type: 'Warning',
+			reason: 'BackOff',
+			message: 'newest happened',
+			count: 2,
+			involvedObject: 'Pod/web-1',
+			firstSeen: '2026-01-01T00:00:00.000Z',
+			lastSeen: '2026-01-01T12:00:00.000Z',
+			source: undefined
+		});
+	});
+
+	test('filters by involved object and type through the field selector', async () => {
+		cluster.requests.length = 0;
+		await executeTool(cluster.kc, { tool: 'listNamespacedEvent', args: { namespace: 'dev', podName: 'web-1', warningsOnly: true } }, openPolicy());
+		const selector = cluster.requests.find(r => r.pathname.endsWith('/events'))?.searchParams.get('fieldSelector');
+		assert.strictEqual(selector, 'regarding.kind=Pod,regarding.name=web-1,type=Warning');
+	});
+
+	test('falls back to core v1 events and the default namespace', async () => {
+		cluster.requests.length = 0;
+		const res = await executeTool(cluster.kc, { tool: 'listNamespacedEvent', args: { podName: 'web-1' } }, openPolicy());
+		assert.strictEqual(res.result.namespace, 'default');
+		assert.strictEqual(res.result.api, 'v1');
+		assert.deepStrictEqual(res.result.items.map((e: any) => e.message), ['second happened', 'first happened']);
+		const selector = cluster.requests.find(r => r.pathname === '/api/v1/namespaces/default/events')?.searchParams.get('fieldSelector');
+		assert.strictEqual(selector, 'involvedObject.kind=Pod,involvedObject.name=web-1');
+	});
+});
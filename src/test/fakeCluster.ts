@@ -0,0 +1,52 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as k8s from '@kubernetes/client-node';
+import { Policy } from '../policy';
+
+export type FakeCluster = {
+	kc: k8s.KubeConfig;
+	requests: URL[]; // Every request the client made, query included
+	close: () => void;
+};
+
+/**
+ * Serves fixed JSON bodies by request path (query ignored) on a local port; other paths get a
+ * 404 Status, which is what the API server returns for a group or resource it does not serve.
+ */
+export async function startFakeCluster(responses: Record<string, object>): Promise<FakeCluster> {
+	const requests: URL[] = [];
+	const server = http.createServer((req, res) => {
+		const url = new URL(req.url ?? '/', 'http://fake');
+		requests.push(url);
+		const body = responses[url.pathname.replace(/\/$/, '')];
+		res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+		res.end(JSON.stringify(body ?? { kind: 'Status', code: 404, reason: 'NotFound' }));
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	const kc = new k8s.KubeConfig();
+	kc.loadFromOptions({
+		clusters: [{ name: 'fake', server: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, skipTLSVerify: true }],
+		users: [{ name: 'fake' }],
+		contexts: [{ name: 'fake', cluster: 'fake', user: 'fake' }],
+		currentContext: 'fake'
+	});
+	return { kc, requests, close: () => server.close() };
+}
+
+// A policy that allows every call, for tests of tool behavior rather than of the policy engine
+export function openPolicy(): Policy {
+	return {
+		namespaces: { allow: ['*'], deny: [] },
+		images: [],
+		replicas: [],
+		forbiddenTools: [],
+		tiers: {
+			dev: { contexts: [], namespaces: [] },
+			qa: { contexts: [], namespaces: [] },
+			prod: { contexts: [], namespaces: [] }
+		},
+		allowDestructiveInProd: false,
+		allowClusterScoped: true,
+		sources: ['test']
+	};
+}
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as k8s from '@kubernetes/client-node';
+import { buildApplyCalls } from '../manifest';
+
+// Discovery documents for a minimal cluster: core ConfigMaps and Namespaces, apps Deployments
+const DISCOVERY: Record<string, object> = {
+	'/api/v1': {
+		kind: 'APIResourceList',
+		groupVersion: 'v1',
+		resources: [
+			{ name: 'configmaps', singularName: 'configmap', namespaced: true, kind: 'ConfigMap', verbs: ['get', 'list', 'patch', 'delete'], shortNames: ['cm'] },
+			{ name: 'namespaces', singularName: 'namespace', namespaced: false, kind: 'Namespace', verbs: ['get', 'list', 'patch', 'delete'], shortNames: ['ns'] }
+		]
+	},
+	'/apis': {
+		kind: 'APIGroupList',
+		groups: [{ name: 'apps', versions: [{ groupVersion: 'apps/v1', version: 'v1' }], preferredVersion: { groupVersion: 'apps/v1', version: 'v1' } }]
+	},
+	'/apis/apps/v1': {
+		kind: 'APIResourceList',
+		groupVersion: 'apps/v1',
+		resources: [
+			{ name: 'deployments', singularName: 'deployment', namespaced: true, kind: 'Deployment', verbs: ['get', 'list', 'patch', 'delete'], shortNames: ['deploy'] }
+		]
+	}
+};
+
+suite('Manifest Test Suite', () => {
+	let server: http.Server;
+	let kc: k8s.KubeConfig;
+
+	suiteSetup(async () => {
+		server = http.createServer((req, res) => {
+			const body = DISCOVERY[(req.url ?? '').split('?')[0].replace(/\/$/, '')];
+			res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+			res.end(JSON.stringify(body ?? { kind: 'Status', code: 404 }));
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		kc = new k8s.KubeConfig();
+		kc.loadFromOptions({
+			clusters: [{ name: 'test', server: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, skipTLSVerify: true }],
+			users: [{ name: 'test' }],
+			contexts: [{ name: 'manifest-test', cluster: 'test', user: 'test' }],
+			currentContext: 'manifest-test'
+		});
+	});
+
+	suiteTeardown(() => {
+		server.close();
+	});
+
+	test('builds one call per document, skipping empty documents and expanding lists', async () => {
+		const text = [
+			'apiVersion: v1',
+			'kind: Namespace',
+			'metadata:',
+			'  name: shop',
+			'---',
+			'---',
+			'apiVersion: apps/v1',
+			'kind: Deployment',
+			'metadata:',
+			'  name: web',
+			'  namespace: shop',
+			'---',
+			'apiVersion: v1',
+			'kind: List',
+			'items:',
+			'- apiVersion: v1',
+			'  kind: ConfigMap',
+			'  metadata:',
+			'    name: settings',
+			'  data:',
+			'    MODE: debug'
+		].join('\n');
+
+		const calls = await buildApplyCalls(kc, text, 'dev');
+		assert.deepStrictEqual(calls.map(c => [c.tool, c.args.kind, c.args.namespace, c.args.name]), [
+			['applyManifest', 'Namespace', undefined, 'shop'],
+			['applyManifest', 'Deployment', 'shop', 'web'],
+			['applyManifest', 'ConfigMap', 'dev', 'settings']
+		]);
+		assert.strictEqual(calls[2].args.manifest.metadata.namespace, 'dev');
+		assert.deepStrictEqual(calls[2].args.manifest.data, { MODE: 'debug' });
+	});
+
+	test('rejects the whole file when a document is incomplete', async () => {
+		const text = 'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: a\n---\napiVersion: v1\nkind: ConfigMap\n';
+		await assert.rejects(buildApplyCalls(kc, text, 'dev'), /Document 2 needs apiVersion, kind and metadata.name/);
+	});
+
+	test('rejects types the cluster does not serve', async () => {
+		const text = 'apiVersion: example.com/v1\nkind: Widget\nmetadata:\n  name: w\n';
+		await assert.rejects(buildApplyCalls(kc, text, 'dev'), /Document 1 \(Widget w\)/);
+	});
+
+	test('rejects invalid YAML and files without objects', async () => {
+		await assert.rejects(buildApplyCalls(kc, 'kind: [unclosed', 'dev'), /Not valid YAML/);
+		await assert.rejects(buildApplyCalls(kc, '# only a comment\n---\n', 'dev'), /No Kubernetes objects found/);
+	});
+});
@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import { ToolCall } from '../kubernetes';
+import { classifyCallTier, classifyTier, evaluatePolicy, Policy } from '../policy';
+
+function makePolicy(overrides: Partial<Policy> = {}): Policy {
+	return {
+		namespaces: { allow: ['dev', 'qa-*'], deny: ['kube-system'] },
+		images: [{ namespace: '*', registries: ['registry.example.com/'] }],
+		replicas: [{ namespace: '*', max: 10 }, { namespace: 'dev', max: 5 }],
+		forbiddenTools: [{ namespace: 'qa-*', tools: ['deleteDeployment'] }],
+		tiers: {
+			dev: { contexts: [], namespaces: [] },
+			qa: { contexts: [], namespaces: ['qa-*'] },
+			prod: { contexts: ['prod-*'], namespaces: ['payments'] }
+		},
+		allowDestructiveInProd: false,
+		allowClusterScoped: false,
+		sources: ['test'],
+		...overrides
+	};
+}
+
+function rules(policy: Policy, call: ToolCall, context = 'dev-cluster'): string[] {
+	return evaluatePolicy(policy, call, context).violations.map(v => v.rule);
+}
+
+suite('Policy Test Suite', () => {
+	test('allows namespaces matching an allowlist glob', () => {
+		const decision = evaluatePolicy(makePolicy(), { tool: 'scaleDeployment', args: { namespace: 'qa-eu', name: 'web', replicas: 3 } }, 'dev-cluster');
+		assert.strictEqual(decision.allowed, true);
+		assert.deepStrictEqual(decision.violations, []);
+	});
+
+	test('denies namespaces outside the allowlist', () => {
+		assert.deepStrictEqual(rules(makePolicy(), { tool: 'scaleDeployment', args: { namespace: 'staging', name: 'web', replicas: 1 } }), ['namespace']);
+	});
+
+	test('deny rules win over the allowlist', () => {
+		const policy = makePolicy({ namespaces: { allow: ['*'], deny: ['kube-*'] } });
+		assert.deepStrictEqual(rules(policy, { tool: 'createPod', args: { namespace: 'kube-system', name: 'debug' } }), ['namespace']);
+	});
+
+	test('treats glob characters other than * literally', () => {
+		const policy = makePolicy({ namespaces: { allow: ['team.dev'], deny: [] } });
+		assert.deepStrictEqual(rules(policy, { tool: 'createPod', args: { namespace: 'team.dev', name: 'a' } }), []);
+		assert.deepStrictEqual(rules(policy, { tool: 'createPod', args: { namespace: 'teamXdev', name: 'a' } }), ['namespace']);
+	});
+
+	test('checks images against the allowed registries', () => {
+		const policy = makePolicy();
+		assert.deepStrictEqual(rules(policy, { tool: 'updateDeploymentImage', args: { namespace: 'dev', name: 'web', image: 'registry.example.com/web:2' } }), []);
+		assert.deepStrictEqual(rules(policy, { tool: 'updateDeploymentImage', args: { namespace: 'dev', name: 'web', image: 'docker.io/nginx' } }), ['image']);
+	});
+
+	test('checks init container images of applied manifests', () => {
+		const manifest = {
+			apiVersion: 'v1',
+			kind: 'Pod',
+			metadata: { name: 'debug', namespace: 'dev' },
+			spec: {
+				initContainers: [{ name: 'init', image: 'docker.io/busybox' }],
+				containers: [{ name: 'app', image: 'registry.example.com/app:1' }]
+			}
+		};
+		const call: ToolCall = { tool: 'applyManifest', args: { apiVersion: 'v1', kind: 'Pod', namespace: 'dev', name: 'debug', manifest } };
+		assert.deepStrictEqual(rules(makePolicy(), call), ['image']);
+	});
+
+	test('applies the lowest matching replica ceiling', () => {
+		const policy = makePolicy();
+		assert.deepStrictEqual(rules(policy, { tool: 'scaleDeployment', args: { namespace: 'dev', name: 'web', replicas: 5 } }), []);
+		assert.deepStrictEqual(rules(policy, { tool: 'scaleDeployment', args: { namespace: 'dev', name: 'web', replicas: 6 } }), ['replicas']);
+		assert.deepStrictEqual(rules(policy, { tool: 'scaleDeployment', args: { namespace: 'qa-eu', name: 'web', replicas: 6 } }), []);
+	});
+
+	test('denies malformed replica counts', () => {
+		const policy = makePolicy();
+		for (const replicas of ['abc', '5x', -1, 1.5]) {
+			assert.deepStrictEqual(rules(policy, { tool: 'scaleDeployment', args: { namespace: 'dev', name: 'web', replicas } }), ['replicas'], String(replicas));
+		}
+	});
+
+	test('checks both HPA bounds against the replica ceiling', () => {
+		const policy = makePolicy();
+		const bounds = (args: object) => rules(policy, { tool: 'updateHpaReplicaBounds', args: { namespace: 'dev', name: 'web', ...args } });
+		assert.deepStrictEqual(bounds({ minReplicas: 500 }), ['replicas']);
+		assert.deepStrictEqual(bounds({ minReplicas: 2, maxReplicas: 6 }), ['replicas']);
+		assert.deepStrictEqual(bounds({ minReplicas: 2, maxReplicas: 5 }), []);
+		assert.deepStrictEqual(bounds({ minReplicas: 'abc' }), ['replicas']);
+
+		const manifest = {
+			apiVersion: 'autoscaling/v2',
+			kind: 'HorizontalPodAutoscaler',
+			metadata: { name: 'web', namespace: 'dev' },
+			spec: { minReplicas: 50, maxReplicas: 5 }
+		};
+		const call: ToolCall = { tool: 'applyManifest', args: { apiVersion: 'autoscaling/v2', kind: 'HorizontalPodAutoscaler', namespace: 'dev', name: 'web', manifest } };
+		assert.deepStrictEqual(rules(policy, call), ['replicas']);
+	});
+
+	test('denies forbidden tools in matching namespaces only', () => {
+		const policy = makePolicy();
+		assert.deepStrictEqual(rules(policy, { tool: 'deleteDeployment', args: { namespace: 'qa-eu', name: 'web' } }), ['tool']);
+		assert.deepStrictEqual(rules(policy, { tool: 'deleteDeployment', args: { namespace: 'dev', name: 'web' } }), []);
+	});
+
+	test('blocks destructive tools on prod-tier targets unless allowed', () => {
+		const call: ToolCall = { tool: 'deleteDeployment', args: { namespace: 'dev', name: 'web' } };
+		assert.deepStrictEqual(rules(makePolicy(), call, 'prod-eu'), ['tier']);
+		assert.deepStrictEqual(rules(makePolicy({ allowDestructiveInProd: true }), call, 'prod-eu'), []);
+	});
+
+	test('denies cluster-scoped changes unless allowed', () => {
+		const call: ToolCall = { tool: 'cordonNode', args: { name: 'node-1' } };
+		assert.deepStrictEqual(rules(makePolicy(), call), ['namespace']);
+		assert.deepStrictEqual(rules(makePolicy({ allowClusterScoped: true }), call), []);
+	});
+
+	test('checks namespace manifests and createNamespace against the namespace rules', () => {
+		const policy = makePolicy();
+		assert.deepStrictEqual(rules(policy, { tool: 'createNamespace', args: { name: 'qa-new' } }), []);
+		const manifest = { apiVersion: 'v1', kind: 'Namespace', metadata: { name: 'staging' } };
+		assert.deepStrictEqual(rules(policy, { tool: 'applyManifest', args: { apiVersion: 'v1', kind: 'Namespace', name: 'staging', manifest } }), ['namespace']);
+	});
+
+	test('checks event listings without a namespace against the default namespace', () => {
+		assert.deepStrictEqual(rules(makePolicy(), { tool: 'listNamespacedEvent', args: {} }), ['namespace']);
+		const policy = makePolicy({ namespaces: { allow: ['default'], deny: [] } });
+		assert.deepStrictEqual(rules(policy, { tool: 'listNamespacedEvent', args: { podName: 'web-1' } }), []);
+	});
+
+	test('does not restrict read-only calls without a namespace', () => {
+		assert.deepStrictEqual(rules(makePolicy(), { tool: 'listNodes', args: {} }), []);
+	});
+});
+
+suite('Tier Test Suite', () => {
+	test('classifies by context and namespace globs', () => {
+		const policy = makePolicy();
+		assert.strictEqual(classifyTier(policy, 'prod-eu', 'dev'), 'prod');
+		assert.strictEqual(classifyTier(policy, 'dev-cluster', 'qa-eu'), 'qa');
+		assert.strictEqual(classifyTier(policy, 'dev-cluster', 'payments'), 'prod');
+	});
+
+	test('picks the strictest matching tier', () => {
+		assert.strictEqual(classifyTier(makePolicy(), 'prod-eu', 'qa-eu'), 'prod');
+	});
+
+	test('treats unclassified targets as dev', () => {
+		assert.strictEqual(classifyTier(makePolicy(), 'dev-cluster', 'dev'), 'dev');
+		assert.strictEqual(classifyTier(makePolicy(), 'dev-cluster'), 'dev');
+	});
+
+	test('classifies cluster-scoped changes as prod', () => {
+		const policy = makePolicy();
+		assert.strictEqual(classifyCallTier(policy, 'dev-cluster', { tool: 'cordonNode', args: { name: 'node-1' } }), 'prod');
+		assert.strictEqual(classifyCallTier(policy, 'dev-cluster', { tool: 'listNodes', args: {} }), 'dev');
+		assert.strictEqual(classifyCallTier(policy, 'dev-cluster', { tool: 'createNamespace', args: { name: 'qa-new' } }), 'qa');
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { diffObjects, toRemoval } from '../preview';
+
+suite('Preview Diff Test Suite', () => {
+	test('reports changed scalar fields by dotted path', () => {
+		const before = { spec: { replicas: 1, paused: false } };
+		const after = { spec: { replicas: 3, paused: false } };
+		assert.deepStrictEqual(diffObjects(before, after), [{ path: 'spec.replicas', before: 1, after: 3 }]);
+	});
+
+	test('indexes array elements and reports added ones', () => {
+		const before = { spec: { containers: [{ name: 'app', image: 'web:1' }] } };
+		const after = { spec: { containers: [{ name: 'app', image: 'web:2' }, { name: 'sidecar', image: 'proxy:1' }] } };
+		assert.deepStrictEqual(diffObjects(before, after), [
+			{ path: 'spec.containers[0].image', before: 'web:1', after: 'web:2' },
+			{ path: 'spec.containers[1]', before: undefined, after: { name: 'sidecar', image: 'proxy:1' } }
+		]);
+	});
+
+	test('ignores server-managed fields', () => {
+		const before = { metadata: { name: 'web', resourceVersion: '1', generation: 1 }, status: { replicas: 1 } };
+		const after = { metadata: { name: 'web', resourceVersion: '2', generation: 2 }, status: { replicas: 3 } };
+		assert.deepStrictEqual(diffObjects(before, after), []);
+	});
+
+	test('reports a new top-level field as a whole', () => {
+		assert.deepStrictEqual(diffObjects({}, { data: { a: '1' } }), [{ path: 'data', before: undefined, after: { a: '1' } }]);
+	});
+
+	test('reports nothing for identical objects', () => {
+		const object = { spec: { selector: { matchLabels: { app: 'web' } }, ports: [{ port: 80 }] } };
+		assert.deepStrictEqual(diffObjects(object, JSON.parse(JSON.stringify(object))), []);
+	});
+});
+
+suite('Preview Removal Test Suite', () => {
+	test('lists objects removed by deleteResource', () => {
+		const result = { kind: 'ConfigMap', namespace: 'dev', deleted: ['a', 'b'], propagationPolicy: 'Background', dependents: [] };
+		assert.deepStrictEqual(toRemoval(result), {
+			objects: ['ConfigMap dev/a', 'ConfigMap dev/b'],
+			dependents: [],
+			orphaned: false,
+			moreDependents: false
+		});
+	});
+
+	test('lists finished Jobs removed by deleteFinishedJobs with their outcome', () => {
+		const result = { kind: 'Job', namespace: 'dev', deleted: [{ name: 'report-1', outcome: 'Complete' }, { name: 'report-2', outcome: 'Failed' }] };
+		assert.deepStrictEqual(toRemoval(result)?.objects, ['Job dev/report-1 (Complete)', 'Job dev/report-2 (Failed)']);
+	});
+
+	test('reports nothing for deletes without a removal list', () => {
+		assert.strictEqual(toRemoval({ status: 'Success' }), undefined);
+	});
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import * as k8s from '@kubernetes/client-node';
+import { getRolloutProgress, startsRollout } from '../rollout';
+
+function deployment(status: k8s.V1DeploymentStatus, generation = 2, replicas = 3): k8s.V1Deployment {
+	return { metadata: { name: 'web', generation }, spec: { replicas, selector: {}, template: {} }, status };
+}
+
+suite('Rollout Progress Test Suite', () => {
+	test('waits until the controller observes the new generation', () => {
+		const progress = getRolloutProgress(deployment({ observedGeneration: 1, replicas: 3, updatedReplicas: 3, availableReplicas: 3 }));
+		assert.deepStrictEqual(progress, { done: false, failed: false, message: 'waiting for the controller to observe the new spec' });
+	});
+
+	test('reports updated, terminating and available replicas in turn', () => {
+		assert.strictEqual(getRolloutProgress(deployment({ observedGeneration: 2, replicas: 4, updatedReplicas: 1 })).message, '1 of 3 replicas updated');
+		assert.strictEqual(getRolloutProgress(deployment({ observedGeneration: 2, replicas: 4, updatedReplicas: 3 })).message, '1 old replicas pending termination');
+		assert.strictEqual(
+			getRolloutProgress(deployment({ observedGeneration: 2, replicas: 3, updatedReplicas: 3, availableReplicas: 2 })).message,
+			'2 of 3 updated replicas available'
+		);
+	});
+
+	test('completes when every replica is updated and available', () => {
+		const progress = getRolloutProgress(deployment({ observedGeneration: 2, replicas: 3, updatedReplicas: 3, availableReplicas: 3 }));
+		assert.deepStrictEqual(progress, { done: true, failed: false, message: 'rollout complete (3/3 available)' });
+	});
+
+	test('fails when the progress deadline is exceeded', () => {
+		const progress = getRolloutProgress(deployment({
+			observedGeneration: 2,
+			replicas: 4,
+			updatedReplicas: 1,
+			conditions: [{ type: 'Progressing', status: 'False', reason: 'ProgressDeadlineExceeded', message: 'ReplicaSet "web-2" has timed out progressing.' }]
+		}));
+		assert.deepStrictEqual(progress, { done: false, failed: true, message: 'progress deadline exceeded: ReplicaSet "web-2" has timed out progressing.' });
+	});
+
+	test('watches deployment image updates and scales', () => {
+		assert.strictEqual(startsRollout({ tool: 'updateDeploymentImage', args: {} }), true);
+		assert.strictEqual(startsRollout({ tool: 'scaleDeployment', args: {} }), true);
+		assert.strictEqual(startsRollout({ tool: 'updateConfigMap', args: {} }), false);
+	});
+});
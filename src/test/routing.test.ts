@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { extractHttpRouteMatches, extractIngressMatches } from '../kubernetes';
+
+suite('Ingress Matching Test Suite', () => {
+	const ingress = {
+		metadata: { name: 'shop' },
+		spec: {
+			ingressClassName: 'nginx',
+			tls: [{ hosts: ['shop.example.com'], secretName: 'shop-tls' }],
+			defaultBackend: { service: { name: 'web', port: { name: 'http' } } },
+			rules: [
+				{
+					host: 'shop.example.com',
+					http: {
+						paths: [
+							{ path: '/api', pathType: 'Prefix', backend: { service: { name: 'api', port: { number: 8080 } } } },
+							{ path: '/', pathType: 'Prefix', backend: { service: { name: 'web', port: { number: 80 } } } }
+						]
+					}
+				}
+			]
+		}
+	};
+
+	test('lists the default backend and every rule path that targets the service', () => {
+		assert.deepStrictEqual(extractIngressMatches([ingress], 'web'), [{
+			name: 'shop',
+			ingressClassName: 'nginx',
+			hosts: ['shop.example.com'],
+			tls: [{ hosts: ['shop.example.com'], secretName: 'shop-tls' }],
+			routes: [
+				{ host: '*', path: '(default backend)', port: 'http' },
+				{ host: 'shop.example.com', path: '/', pathType: 'Prefix', port: 80 }
+			]
+		}]);
+	});
+
+	test('skips ingresses that do not route to the service', () => {
+		assert.deepStrictEqual(extractIngressMatches([ingress], 'admin'), []);
+		assert.strictEqual(extractIngressMatches([ingress], 'api')[0].routes.length, 1);
+	});
+});
+
+suite('HTTPRoute Matching Test Suite', () => {
+	const route = {
+		metadata: { name: 'shop', namespace: 'dev' },
+		spec: {
+			hostnames: ['shop.example.com'],
+			parentRefs: [{ name: 'public', namespace: 'gateways', sectionName: 'https' }],
+			rules: [
+				{
+					matches: [{ path: { type: 'PathPrefix', value: '/api' }, method: 'GET' }],
+					backendRefs: [{ name: 'api', port: 8080, weight: 90 }, { name: 'api-canary', port: 8080, weight: 10 }]
+				},
+				{ backendRefs: [{ name: 'web', port: 80 }] },
+				{ backendRefs: [{ name: 'web', namespace: 'other', port: 80 }, { kind: 'ServiceImport', group: 'multicluster.x-k8s.io', name: 'web' }] }
+			]
+		}
+	};
+
+	test('lists matches with their backend port and weight', () => {
+		assert.deepStrictEqual(extractHttpRouteMatches([route], 'api', 'dev'), [{
+			name: 'shop',
+			hostnames: ['shop.example.com'],
+			parentRefs: [{ kind: 'Gateway', name: 'public', namespace: 'gateways', sectionName: 'https' }],
+			routes: [{ path: '/api', pathType: 'PathPrefix', method: 'GET', headers: undefined, port: 8080, weight: 90 }],
+			listeners: []
+		}]);
+	});
+
+	test('treats a rule without matches as a / prefix match', () => {
+		assert.deepStrictEqual(extractHttpRouteMatches([route], 'web', 'dev')[0].routes, [
+			{ path: '/', pathType: 'PathPrefix', method: undefined, headers: undefined, port: 80, weight: undefined }
+		]);
+	});
+
+	test('ignores backends in other namespaces and of other kinds', () => {
+		assert.deepStrictEqual(extractHttpRouteMatches([route], 'web', 'other')[0].routes.length, 1);
+		assert.deepStrictEqual(extractHttpRouteMatches([route], 'api', 'other'), []);
+	});
+});
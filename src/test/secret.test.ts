@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { base64ByteLength, summarizeSecret } from '../kubernetes';
+
+// Self-signed EC certificate for shop.example.com, valid until 2126
+const CERTIFICATE = [
+	'-----BEGIN CERTIFICATE-----',
+	'MIIBqjCCAVCgAwIBAgIUS4U+XJRZMgb6vuzs/XHW0vM1y2MwCgYIKoZIzj0EAwIw',
+	'GzEZMBcGA1UEAwwQc2hvcC5leGFtcGxlLmNvbTAgFw0yNjEwMTkyMDM3MzNaGA8y',
+	'MTI2MDkyNTIwMzczM1owGzEZMBcGA1UEAwwQc2hvcC5leGFtcGxlLmNvbTBZMBMG',
+	'ByqGSM49AgEGCCqGSM49AwEHA0IABEe6Ja3j73tRj5mQ12n7g6zwTmeBLT448NVW',
+	'rJGUX2oyaGpek7qECR10+gDIOHFKI1av7G3MAp4cBp5QYRAKNqmjcDBuMB0GA1Ud',
+	'DgQWBBSxDtBIJuasXsGta/MmlEEbBI3xijAfBgNVHSMEGDAWgBSxDtBIJuasXsGt',
+	'a/MmlEEbBI3xijAPBgNVHRMBAf8EBTADAQH/MBsGA1UdEQQUMBKCEHNob3AuZXhh',
+	'bXBsZS5jb20wCgYIKoZIzj0EAwIDSAAwRQIhANeXH10iKlPvVnGcthHEQQY84p8P',
+	'VWWWr70MqNCA5Na1AiAcvTB6Mjqvln/EmdnX4ji9bSnw53pIGrG9eJ7bHPz5uQ==',
+	'-----END CERTIFICATE-----'
+].join('\n');
+
+const encode = (value: string) => Buffer.from(value).toString('base64');
+
+suite('Secret Metadata Test Suite', () => {
+	test('computes decoded byte lengths from base64 without decoding', () => {
+		for (const value of ['', 'a', 'ab', 'abc', 'hunter2', 'x'.repeat(1000)]) {
+			assert.strictEqual(base64ByteLength(encode(value)), Buffer.byteLength(value), value);
+		}
+	});
+
+	test('lists key names and sizes but never values or annotations', () => {
+		const secret = {
+			metadata: {
+				name: 'db',
+				namespace: 'dev',
+				creationTimestamp: '2026-01-01T00:00:00Z',
+				annotations: { 'kubectl.kubernetes.io/last-applied-configuration': '{"data":{"password":"aHVudGVyMg=="}}' },
+				managedFields: [{ time: '2026-01-02T00:00:00Z' }, { time: '2026-01-05T00:00:00Z' }]
+			},
+			type: 'Opaque',
+			data: { password: encode('hunter2'), user: encode('app') }
+		};
+		const summary = summarizeSecret(secret);
+		assert.deepStrictEqual(summary.keys, [{ name: 'password', bytes: 7 }, { name: 'user', bytes: 3 }]);
+		assert.strictEqual(summary.lastModified, '2026-01-05T00:00:00.000Z');
+		const text = JSON.stringify(summary);
+		assert.ok(!text.includes(encode('hunter2')));
+		assert.ok(!text.includes('hunter2'));
+		assert.ok(!text.includes('last-applied-configuration'));
+	});
+
+	test('reads TLS certificate dates without touching the key', () => {
+		const secret = {
+			metadata: { name: 'shop-tls', namespace: 'dev' },
+			type: 'kubernetes.io/tls',
+			data: { 'tls.crt': encode(CERTIFICATE), 'tls.key': encode('private key material') }
+		};
+		const summary = summarizeSecret(secret);
+		assert.strictEqual(summary.certificate.subject, 'CN=shop.example.com');
+		assert.strictEqual(summary.certificate.subjectAltName, 'DNS:shop.example.com');
+		assert.strictEqual(summary.certificate.notAfter, '2126-09-25T20:37:33.000Z');
+		assert.ok(summary.certificate.expiresInDays > 36000);
+		assert.ok(!JSON.stringify(summary).includes(encode('private key material')));
+	});
+
+	test('reports an unparsable tls.crt instead of failing', () => {
+		const summary = summarizeSecret({ metadata: { name: 'bad-tls' }, type: 'kubernetes.io/tls', data: { 'tls.crt': encode('not a certificate') } });
+		assert.match(summary.certificate.error, /^tls.crt is not a valid certificate/);
+	});
+});
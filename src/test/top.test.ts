@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { executeTool, parseQuantity } from '../kubernetes';
+import { FakeCluster, openPolicy, startFakeCluster } from './fakeCluster';
+
+const podMetrics = (name: string, cpu: string, memory: string) => ({ metadata: { name }, containers: [{ name: 'app', usage: { cpu, memory } }] });
+const pod = (name: string, requests: object) => ({ metadata: { name }, spec: { containers: [{ name: 'app', resources: { requests } }] } });
+
+suite('Resource Quantity Test Suite', () => {
+	test('parses decimal, binary and exponent suffixes into base units', () => {
+		assert.strictEqual(parseQuantity('250m'), 0.25);
+		assert.strictEqual(parseQuantity('1.5'), 1.5);
+		assert.strictEqual(parseQuantity(2), 2);
+		assert.strictEqual(parseQuantity('128Mi'), 128 * 2 ** 20);
+		assert.strictEqual(parseQuantity('1G'), 1e9);
+		assert.strictEqual(parseQuantity('1e3'), 1000);
+		assert.strictEqual(parseQuantity('1n'), 1e-9);
+	});
+
+	test('treats missing or unparsable quantities as zero', () => {
+		assert.strictEqual(parseQuantity(undefined), 0);
+		assert.strictEqual(parseQuantity('lots'), 0);
+		assert.strictEqual(parseQuantity('5Xi'), 0);
+	});
+});
+
+suite('Top Test Suite', () => {
+	let cluster: FakeCluster;
+
+	suiteSetup(async () => {
+		cluster = await startFakeCluster({
+			'/apis/metrics.k8s.io/v1beta1/namespaces/dev/pods': {
+				items: [podMetrics('small', '50m', '300Mi'), podMetrics('busy', '900m', '100Mi'), podMetrics('big', '100m', '1Gi')]
+			},
+			'/api/v1/namespaces/dev/pods': {
+				items: [pod('small', { cpu: '100m' }), pod('busy', { cpu: '500m' }), pod('big', { memory: '2Gi' })]
+			},
+			'/apis/metrics.k8s.io/v1beta1/nodes': {
+				items: [{ metadata: { name: 'node-a' }, usage: { cpu: '1', memory: '6Gi' } }, { metadata: { name: 'node-b' }, usage: { cpu: '3', memory: '2Gi' } }]
+			},
+			'/api/v1/nodes': {
+				items: [
+					{ metadata: { name: 'node-a' }, status: { allocatable: { cpu: '2', memory: '8Gi' } } },
+					{ metadata: { name: 'node-b' }, status: { allocatable: { cpu: '4', memory: '8Gi' } } }
+				]
+			}
+		});
+	});
+
+	suiteTeardown(() => {
+		cluster.close();
+	});
+
+	test('sorts pods by memory by default and by CPU on request', async () => {
+		const byMemory = await executeTool(cluster.kc, { tool: 'topPods', args: { namespace: 'dev' } }, openPolicy());
+		assert.deepStrictEqual(byMemory.result.pods.map((p: any) => p.pod), ['big', 'small', 'busy']);
+
+		const byCpu = await executeTool(cluster.kc, { tool: 'topPods', args: { namespace: 'dev', sortBy: 'cpu', limit: 2 } }, openPolicy());
+		assert.deepStrictEqual(byCpu.result.pods.map((p: any) => [p.pod, p.cpu]), [['busy', '900m'], ['big', '100m']]);
+		assert.strictEqual(byCpu.result.podsMeasured, 3);
+	});
+
+	test('relates container usage to its requests', async () => {
+		const res = await executeTool(cluster.kc, { tool: 'topPods', args: { namespace: 'dev', sortBy: 'cpu' } }, openPolicy());
+		const busy = res.result.pods[0].containers[0];
+		assert.strictEqual(busy.cpuRequest, '500m');
+		assert.strictEqual(busy.cpuPercentOfRequest, 180);
+	});
+
+	test('sorts nodes by their share of allocatable CPU or memory', async () => {
+		const byCpu = await executeTool(cluster.kc, { tool: 'topNodes', args: {} }, openPolicy());
+		assert.deepStrictEqual(byCpu.result.nodes.map((n: any) => [n.node, n.cpuPercent]), [['node-b', 75], ['node-a', 50]]);
+
+		const byMemory = await executeTool(cluster.kc, { tool: 'topNodes', args: { sortBy: 'memory' } }, openPolicy());
+		assert.deepStrictEqual(byMemory.result.nodes.map((n: any) => [n.node, n.memoryPercent]), [['node-a', 75], ['node-b', 25]]);
+	});
+
+	test('reports metrics as unavailable when metrics.k8s.io is not served', async () => {
+		const res = await executeTool(cluster.kc, { tool: 'topPods', args: { namespace: 'qa' } }, openPolicy());
+		assert.strictEqual(res.ok, true);
+		assert.strictEqual(res.result.available, false);
+	});
+});
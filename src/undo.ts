@@ -0,0 +1,62 @@
+import { ToolCall, ToolResult } from "./kubernetes";
+
+/* =========================================================
+ * Types
+ * ========================================================= */
+
+/**
+ * One executed mutation: the target as it was before (null if the change created it)
+ * and after (null if the change deleted it).
+ */
+export type UndoStep = {
+  result: ToolResult;
+  before: any | null;
+  after: any | null;
+};
+
+/* =========================================================
+ * Journal
+ * ========================================================= */
+
+/**
+ * Keeps the steps that can be reverted. Failed calls and calls whose target could not be
+ * read (undefined snapshots) are dropped, as are calls that left no object on either side.
+ */
+export function buildUndoSteps(
+  executed: { result: ToolResult; before: any | null | undefined; after: any | null | undefined }[]
+): UndoStep[] {
+  return executed
+    .filter(e => e.result.ok && e.before !== undefined && e.after !== undefined && (e.before || e.after))
+    .map(e => ({ result: e.result, before: e.before, after: e.after }));
+}
+
+/**
+ * Restore calls in reverse execution order, so later changes are unwound first.
+ * Each call carries the post-change resourceVersion; restoreObject refuses if the
+ * live object no longer matches it.
+ */
+export function buildRestoreCalls(steps: UndoStep[]): ToolCall[] {
+  return [...steps].reverse().map(step => {
+    const reference = step.after ?? step.before;
+    return {
+      tool: "restoreObject",
+      args: {
+        apiVersion: reference.apiVersion,
+        kind: reference.kind,
+        namespace: reference.metadata?.namespace,
+        name: reference.metadata?.name,
+        snapshot: step.before,
+        expectedResourceVersion: step.after?.metadata?.resourceVersion ?? null,
+        note: `Revert ${step.result.tool}`
+      }
+    };
+  });
+}
+
+export function describeUndo(steps: UndoStep[]): string {
+  const targets = steps.map(s => {
+    const reference = s.after ?? s.before;
+    return `${reference.kind} ${reference.metadata?.name} (${s.result.tool})`;
+  });
+  return `Undo the last confirmed changes: ${targets.join(", ")}`;
+}